@@ -0,0 +1,44 @@
+import type { ReleaseConfig } from './scripts/release-config';
+
+/**
+ * Commit conventions shared by the commit-msg hook and
+ * `scripts/version.ts`.
+ */
+export const releaseConfig: ReleaseConfig = {
+  types: {
+    feat: { bump: 'minor', description: 'A new feature' },
+    fix: { bump: 'patch', description: 'A bug fix' },
+    perf: {
+      bump: 'patch',
+      description: 'A performance improvement',
+    },
+    refactor: {
+      bump: 'patch',
+      description: 'A change that neither fixes nor adds',
+    },
+    docs: { bump: 'patch', description: 'Documentation' },
+    test: { bump: 'patch', description: 'Tests' },
+    style: { bump: 'patch', description: 'Formatting' },
+    build: {
+      bump: 'patch',
+      description: 'Build system or dependencies',
+    },
+    ci: { bump: 'patch', description: 'CI configuration' },
+    chore: { bump: 'patch', description: 'Maintenance' },
+    revert: {
+      bump: 'patch',
+      description: 'Reverts a previous commit',
+    },
+    security: {
+      bump: 'patch',
+      description: 'A security fix',
+    },
+    sync: {
+      bump: 'patch',
+      description: 'Syncs with the template or upstream',
+    },
+  },
+  header: { maxLength: 200 },
+  body: { leadingBlank: true },
+  footer: { leadingBlank: true },
+};
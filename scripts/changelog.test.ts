@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  prependChangelog,
+  renderChangelogSection,
+  renderReleaseNotes,
+  toRepoUrl,
+} from './changelog';
+import { parseCommit } from './commits';
+
+const repoUrl = 'https://github.com/owner/repo';
+
+const commits = [
+  parseCommit('aaaaaaa111', 'feat(api): add users (#12)'),
+  parseCommit('bbbbbbb222', 'fix: handle empty input'),
+  parseCommit('ccccccc333', 'feat: add export'),
+  parseCommit('ddddddd444', 'chore: bump deps'),
+  parseCommit(
+    'eeeeeee555',
+    'perf(api)!: stream results\n\nBREAKING CHANGE: results are async iterables',
+  ),
+];
+
+describe('renderReleaseNotes', () => {
+  it('groups by type and scope with links', () => {
+    expect(renderReleaseNotes(commits, repoUrl)).toBe(
+      [
+        '### ⚠ Breaking Changes',
+        '',
+        '- **api**',
+        `  - results are async iterables ([eeeeeee](${repoUrl}/commit/eeeeeee555))`,
+        '',
+        '### Features',
+        '',
+        `- add export ([ccccccc](${repoUrl}/commit/ccccccc333))`,
+        '- **api**',
+        `  - add users ([#12](${repoUrl}/pull/12), [aaaaaaa](${repoUrl}/commit/aaaaaaa111))`,
+        '',
+        '### Fixes',
+        '',
+        `- handle empty input ([bbbbbbb](${repoUrl}/commit/bbbbbbb222))`,
+        '',
+        '### Performance',
+        '',
+        '- **api**',
+        `  - stream results ([eeeeeee](${repoUrl}/commit/eeeeeee555))`,
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('lists a merged change once', () => {
+    const merged = [
+      parseCommit('aaaaaaa111', 'feat: add search'),
+      parseCommit(
+        'bbbbbbb222',
+        "Merge branch 'search'\n\nfeat: add search",
+      ),
+      parseCommit(
+        'ccccccc333',
+        "Merge branch 'export'\n\nfeat: add export",
+      ),
+    ];
+    expect(renderReleaseNotes(merged)).toBe(
+      '### Features\n\n- add search (aaaaaaa)\n- add export (ccccccc)\n',
+    );
+  });
+
+  it('falls back to plain references without a repository', () => {
+    expect(renderReleaseNotes(commits.slice(0, 1))).toBe(
+      '### Features\n\n- **api**\n  - add users (#12, aaaaaaa)\n',
+    );
+    expect(renderReleaseNotes(commits.slice(3, 4))).toBe(
+      '_No user-facing changes._\n',
+    );
+  });
+});
+
+describe('renderChangelogSection', () => {
+  it('links the heading to the compare view', () => {
+    const section = renderChangelogSection(commits, {
+      version: '1.3.0',
+      date: '2026-01-02',
+      previousTag: 'v1.2.0',
+      repoUrl,
+    });
+    expect(section.split('\n')[0]).toBe(
+      `## [1.3.0](${repoUrl}/compare/v1.2.0...v1.3.0) (2026-01-02)`,
+    );
+  });
+});
+
+describe('toRepoUrl', () => {
+  it('normalizes package.json repository urls', () => {
+    expect(
+      toRepoUrl({
+        url: 'git+https://github.com/owner/repo.git',
+      }),
+    ).toBe(repoUrl);
+    expect(toRepoUrl('git@github.com:owner/repo.git')).toBe(
+      repoUrl,
+    );
+    expect(toRepoUrl(undefined)).toBeUndefined();
+  });
+});
+
+describe('prependChangelog', () => {
+  it('creates the file and adds newer sections on top', () => {
+    const dir = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'changelog-'),
+    );
+    const file = path.join(dir, 'CHANGELOG.md');
+    try {
+      prependChangelog(file, '## 1.0.0\n\n- first\n');
+      prependChangelog(file, '## 1.1.0\n\n- second\n');
+      expect(fs.readFileSync(file, 'utf-8')).toBe(
+        '# Changelog\n\n## 1.1.0\n\n- second\n\n## 1.0.0\n\n- first\n',
+      );
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
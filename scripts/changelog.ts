@@ -0,0 +1,203 @@
+import fs from 'node:fs';
+import type { ParsedCommit } from './commits';
+
+export interface ReleaseInfo {
+  version: string;
+  /** Tag of this release. Defaults to `v<version>`. */
+  tag?: string;
+  /** `YYYY-MM-DD`. Defaults to today. */
+  date?: string;
+  /** Tag of the previous release, used for the compare link. */
+  previousTag?: string;
+  /** Repository web URL, e.g. `https://github.com/owner/repo`. */
+  repoUrl?: string;
+}
+
+/**
+ * Changelog sections in order, with the commit types they list.
+ */
+const SECTIONS: { title: string; types: string[] }[] = [
+  { title: 'Features', types: ['feat'] },
+  { title: 'Fixes', types: ['fix'] },
+  { title: 'Performance', types: ['perf'] },
+];
+
+const CHANGELOG_HEADER = '# Changelog\n';
+
+/**
+ * Turns a `repository.url` from package.json, such as
+ * `git+https://github.com/owner/repo.git`, into a web URL.
+ */
+export function toRepoUrl(
+  repository: string | { url?: string } | undefined,
+): string | undefined {
+  const url =
+    typeof repository === 'string'
+      ? repository
+      : repository?.url;
+  if (!url) return undefined;
+  return url
+    .replace(/^git\+/, '')
+    .replace(/^git@([^:]+):/, 'https://$1/')
+    .replace(/\.git$/, '');
+}
+
+/**
+ * Renders a changelog entry with its pull request and commit links.
+ */
+function renderEntry(
+  text: string,
+  commit: ParsedCommit,
+  repoUrl: string | undefined,
+): string {
+  const short = commit.hash.slice(0, 7);
+  const links = [
+    commit.pr !== undefined &&
+      (repoUrl
+        ? `[#${commit.pr}](${repoUrl}/pull/${commit.pr})`
+        : `#${commit.pr}`),
+    repoUrl
+      ? `[${short}](${repoUrl}/commit/${commit.hash})`
+      : short,
+  ].filter(Boolean);
+  return `${text} (${links.join(', ')})`;
+}
+
+/**
+ * Renders entries as a list, with unscoped ones first and the rest
+ * nested under their scope in alphabetical order.
+ */
+function renderList(
+  entries: { scope?: string; line: string }[],
+): string {
+  const byScope = new Map<string, string[]>();
+  for (const { scope = '', line } of entries)
+    byScope.set(scope, [
+      ...(byScope.get(scope) ?? []),
+      line,
+    ]);
+  const unscoped = byScope.get('') ?? [];
+  byScope.delete('');
+  return [
+    ...unscoped.map(line => `- ${line}`),
+    ...[...byScope.keys()]
+      .sort()
+      .flatMap(scope => [
+        `- **${scope}**`,
+        ...(byScope.get(scope) ?? []).map(
+          line => `  - ${line}`,
+        ),
+      ]),
+  ].join('\n');
+}
+
+/**
+ * Drops merge commits that repeat the header of a commit they
+ * merged, so a `--no-ff` merge of "feat: add search" is listed once.
+ */
+function withoutMergeDuplicates(
+  commits: ParsedCommit[],
+): ParsedCommit[] {
+  const key = (c: ParsedCommit) =>
+    `${c.type}\0${c.scope ?? ''}\0${c.subject}`;
+  const merged = new Set(
+    commits.filter(c => !c.merge).map(key),
+  );
+  return commits.filter(
+    c => !c.merge || !merged.has(key(c)),
+  );
+}
+
+/**
+ * Renders the release notes for `commits` as markdown: breaking
+ * changes first, then features, fixes and performance work. Other
+ * commit types are left out.
+ */
+export function renderReleaseNotes(
+  allCommits: ParsedCommit[],
+  repoUrl?: string,
+): string {
+  const commits = withoutMergeDuplicates(allCommits);
+  const sections: [string, string][] = [];
+  const breaking = commits.filter(c => c.breaking);
+  if (breaking.length > 0)
+    sections.push([
+      '⚠ Breaking Changes',
+      renderList(
+        breaking.map(c => ({
+          scope: c.scope,
+          line: renderEntry(
+            c.breakingNote ?? c.subject,
+            c,
+            repoUrl,
+          ),
+        })),
+      ),
+    ]);
+  for (const { title, types } of SECTIONS) {
+    const matching = commits.filter(
+      c => c.type && types.includes(c.type),
+    );
+    if (matching.length > 0)
+      sections.push([
+        title,
+        renderList(
+          matching.map(c => ({
+            scope: c.scope,
+            line: renderEntry(c.subject, c, repoUrl),
+          })),
+        ),
+      ]);
+  }
+  if (sections.length === 0)
+    return '_No user-facing changes._\n';
+  return `${sections
+    .map(([title, list]) => `### ${title}\n\n${list}`)
+    .join('\n\n')}\n`;
+}
+
+/**
+ * Renders a `CHANGELOG.md` section: the version heading, linked to
+ * the compare view when possible, followed by the release notes.
+ */
+export function renderChangelogSection(
+  commits: ParsedCommit[],
+  {
+    version,
+    tag = `v${version}`,
+    date = new Date().toISOString().slice(0, 10),
+    previousTag,
+    repoUrl,
+  }: ReleaseInfo,
+): string {
+  const title =
+    repoUrl && previousTag
+      ? `[${version}](${repoUrl}/compare/${previousTag}...${tag})`
+      : version;
+  return `## ${title} (${date})\n\n${renderReleaseNotes(commits, repoUrl)}`;
+}
+
+/**
+ * Inserts `section` above the newest entry of the changelog at
+ * `filePath`, creating the file when it doesn't exist.
+ */
+export function prependChangelog(
+  filePath: string,
+  section: string,
+): void {
+  const existing = fs.existsSync(filePath)
+    ? fs.readFileSync(filePath, 'utf-8')
+    : CHANGELOG_HEADER;
+  const firstEntry = existing.search(/^## /m);
+  const [head, rest] =
+    firstEntry === -1
+      ? [existing.trimEnd(), '']
+      : [
+          existing.slice(0, firstEntry).trimEnd(),
+          `\n${existing.slice(firstEntry)}`,
+        ];
+  fs.writeFileSync(
+    filePath,
+    `${head}\n\n${section}${rest}`,
+  );
+}
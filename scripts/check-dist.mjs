@@ -0,0 +1,22 @@
+// Loads the built package the way Node consumers do, so module
+// resolution problems in dist/ fail here instead of after publishing.
+// Run with Node, not Bun: Bun resolves imports Node rejects.
+import assert from 'node:assert/strict';
+import { createRequire } from 'node:module';
+
+const require = createRequire(import.meta.url);
+const esm = await import('../dist/esm/index.js');
+const cjs = require('../dist/cjs/index.js');
+
+assert.deepEqual(
+  Object.keys(cjs).sort(),
+  Object.keys(esm).sort(),
+  'ESM and CJS builds export the same names',
+);
+for (const lib of [esm, cjs]) {
+  assert.deepEqual(lib.chunk([1, 2, 3], 2), [[1, 2], [3]]);
+  assert.equal(lib.parseDuration('1m30s'), 90_000);
+}
+console.log(
+  `✅ dist/esm and dist/cjs load in Node ${process.version}`,
+);
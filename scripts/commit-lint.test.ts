@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  cleanMessage,
+  closestMatch,
+  formatIssues,
+  lintCommitMessage,
+} from './commit-lint';
+import type { ReleaseConfig } from './release-config';
+
+const config: ReleaseConfig = {
+  types: {
+    feat: { bump: 'minor' },
+    fix: { bump: 'patch' },
+    perf: { bump: 'minor' },
+  },
+  scopes: ['api', 'cli'],
+  header: { maxLength: 30 },
+  body: { leadingBlank: true, maxLineLength: 30 },
+  footer: { leadingBlank: true },
+};
+
+const rules = (message: string) =>
+  lintCommitMessage(message, config).map(i => i.rule);
+
+describe('lintCommitMessage', () => {
+  it('accepts valid messages', () => {
+    expect(rules('feat(api): add users')).toEqual([]);
+    expect(
+      rules(
+        'fix!: drop v1\n\nShort body.\n\nBREAKING CHANGE: v1 is gone',
+      ),
+    ).toEqual([]);
+  });
+
+  it('skips messages git generates', () => {
+    expect(rules("Merge branch 'main'")).toEqual([]);
+    expect(rules('fixup! feat: add users')).toEqual([]);
+  });
+
+  it('suggests the closest type', () => {
+    const [issue] = lintCommitMessage(
+      'feta(api): add users',
+      config,
+    );
+    expect(issue).toMatchObject({
+      rule: 'type-enum',
+      message: 'Unknown type "feta"',
+      column: 1,
+      length: 4,
+      hint: 'Did you mean "feat"? Allowed types: feat, fix, perf',
+    });
+  });
+
+  it('checks scopes against the config', () => {
+    const [issue] = lintCommitMessage(
+      'fix(apu): x',
+      config,
+    );
+    expect(issue).toMatchObject({
+      rule: 'scope-enum',
+      column: 5,
+      hint: 'Did you mean "api"? Allowed scopes: api, cli',
+    });
+    expect(rules('fix(): x')).toEqual(['scope-empty']);
+  });
+
+  it('points at header format problems', () => {
+    expect(rules('add users')).toEqual(['header-format']);
+    expect(
+      lintCommitMessage('feat:x', config),
+    ).toMatchObject([{ rule: 'header-format', column: 6 }]);
+    expect(rules('feat: ')).toEqual(['subject-empty']);
+    expect(
+      lintCommitMessage(
+        'feat: a very long header indeed',
+        config,
+      ),
+    ).toMatchObject([
+      { rule: 'header-max-length', column: 31, length: 1 },
+    ]);
+  });
+
+  it('checks the body and footers', () => {
+    expect(rules('feat: x\nbody')).toEqual([
+      'body-leading-blank',
+    ]);
+    expect(
+      rules('feat: x\n\nthis line is far too long to fit'),
+    ).toEqual(['body-max-line-length']);
+    expect(
+      rules('feat: x\n\nbody\nBreaking changes: y'),
+    ).toEqual([
+      'footer-breaking-format',
+      'footer-leading-blank',
+    ]);
+  });
+});
+
+describe('closestMatch', () => {
+  it('matches typos, case and prefixes', () => {
+    const types = ['feat', 'fix', 'chore'];
+    expect(closestMatch('Fix', types)).toBe('fix');
+    expect(closestMatch('feature', types)).toBe('feat');
+    expect(closestMatch('chroe', types)).toBe('chore');
+    expect(closestMatch('release', types)).toBeUndefined();
+  });
+});
+
+describe('cleanMessage', () => {
+  it('drops comments and the verbose diff', () => {
+    expect(
+      cleanMessage(
+        'feat: x\n# Please enter a message\n# ------------------------ >8 ------------------------\ndiff --git a b\n',
+      ),
+    ).toBe('feat: x');
+  });
+});
+
+describe('formatIssues', () => {
+  it('underlines the problem', () => {
+    const message = 'feta: add users';
+    expect(
+      formatIssues(
+        message,
+        lintCommitMessage(message, config),
+      ),
+    ).toBe(
+      [
+        '✖ Unknown type "feta" [type-enum]',
+        '  1 | feta: add users',
+        '    | ^^^^',
+        '  Did you mean "feat"? Allowed types: feat, fix, perf',
+      ].join('\n'),
+    );
+  });
+});
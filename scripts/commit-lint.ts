@@ -0,0 +1,341 @@
+import fs from 'node:fs';
+import { releaseConfig } from '../release.config';
+import type { ReleaseConfig } from './release-config';
+
+/**
+ * A problem found in a commit message, located so it can be
+ * underlined.
+ */
+export interface LintIssue {
+  /** Rule that failed, e.g. `type-enum`. */
+  rule: string;
+  message: string;
+  /** 1-based line number. */
+  line: number;
+  /** 1-based column where the problem starts. */
+  column: number;
+  /** Characters to underline. Defaults to 1. */
+  length?: number;
+  hint?: string;
+}
+
+/** Messages git writes itself, which are not linted. */
+const GENERATED = /^(Merge |Revert\b|fixup! |squash! )/;
+
+/**
+ * Splits a header into type, scope, `!`, colon, space and
+ * description. Always matches, so every part can be checked.
+ */
+const LOOSE_HEADER =
+  /^([^(:!\s]*)(?:\(([^)]*)\))?(!)?(:)?( ?)(.*)$/;
+
+const FOOTER = /^([\w-]+(: | #)|BREAKING[ -]CHANGE: )/;
+
+/**
+ * Drops the comment lines and the diff below the scissors line that
+ * git adds to the message file.
+ */
+export function cleanMessage(raw: string): string {
+  const scissors = raw.search(/^# -+ >8 -+$/m);
+  return (scissors === -1 ? raw : raw.slice(0, scissors))
+    .split('\n')
+    .filter(line => !line.startsWith('#'))
+    .join('\n')
+    .trimEnd();
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from(
+    { length: b.length + 1 },
+    (_, i) => i,
+  );
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++)
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * The candidate closest to `input`, ignoring case, or `undefined`
+ * when none is close. Prefixes count as close, so `feature` suggests
+ * `feat`.
+ */
+export function closestMatch(
+  input: string,
+  candidates: readonly string[],
+): string | undefined {
+  const needle = input.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (const candidate of candidates) {
+    const distance =
+      candidate.startsWith(needle) ||
+      needle.startsWith(candidate)
+        ? 0.5
+        : levenshtein(needle, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best !== undefined &&
+    bestDistance <= Math.max(2, best.length / 2)
+    ? best
+    : undefined;
+}
+
+/**
+ * A hint naming the closest allowed value and listing all of them.
+ */
+function suggest(
+  input: string,
+  allowed: readonly string[],
+  kind: string,
+): string {
+  const closest = closestMatch(input, allowed);
+  return `${closest ? `Did you mean "${closest}"? ` : ''}Allowed ${kind}: ${allowed.join(', ')}`;
+}
+
+function lintHeader(
+  header: string,
+  config: ReleaseConfig,
+): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const at = (
+    rule: string,
+    message: string,
+    column: number,
+    length?: number,
+    hint?: string,
+  ) =>
+    issues.push({
+      rule,
+      message,
+      line: 1,
+      column,
+      length,
+      hint,
+    });
+  const types = Object.keys(config.types);
+  const example = `e.g. "${types[0]}: add user search"`;
+
+  if (header.length > config.header.maxLength)
+    at(
+      'header-max-length',
+      `Header is ${header.length} characters long; the limit is ${config.header.maxLength}`,
+      config.header.maxLength + 1,
+      header.length - config.header.maxLength,
+    );
+  if (!header.includes(':')) {
+    at(
+      'header-format',
+      'Header must start with a type and a colon',
+      1,
+      header.length || 1,
+      `Write the header as "type(scope): description", ${example}. Allowed types: ${types.join(', ')}`,
+    );
+    return issues;
+  }
+
+  const [, type, scope, bang = '', colon, space, subject] =
+    LOOSE_HEADER.exec(header) as RegExpExecArray;
+  const scopeEnd =
+    type.length +
+    (scope === undefined ? 0 : scope.length + 2);
+  if (!type)
+    at(
+      'type-empty',
+      'Header must start with a type',
+      1,
+      1,
+      `Allowed types: ${types.join(', ')}`,
+    );
+  else if (!Object.hasOwn(config.types, type))
+    at(
+      'type-enum',
+      `Unknown type "${type}"`,
+      1,
+      type.length,
+      suggest(type, types, 'types'),
+    );
+
+  if (scope === '')
+    at(
+      'scope-empty',
+      'Scope is empty; name a scope or remove the parentheses',
+      type.length + 1,
+      2,
+    );
+  else if (
+    scope !== undefined &&
+    config.scopes &&
+    !config.scopes.includes(scope)
+  )
+    at(
+      'scope-enum',
+      `Unknown scope "${scope}"`,
+      type.length + 2,
+      scope.length,
+      suggest(scope, config.scopes, 'scopes'),
+    );
+
+  const colonColumn = scopeEnd + bang.length + 1;
+  if (!colon)
+    at(
+      'header-format',
+      'Expected a colon after the type and scope',
+      colonColumn,
+      1,
+      example,
+    );
+  else if (!space && subject)
+    at(
+      'header-format',
+      'Expected a space after the colon',
+      colonColumn + 1,
+    );
+  else if (!subject.trim())
+    at(
+      'subject-empty',
+      'Missing description after the colon',
+      colonColumn + 1,
+      1,
+      example,
+    );
+  return issues;
+}
+
+function lintBody(
+  lines: string[],
+  config: ReleaseConfig,
+): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const { maxLineLength = Number.POSITIVE_INFINITY } =
+    config.body;
+  if (config.body.leadingBlank && lines[1]?.trim())
+    issues.push({
+      rule: 'body-leading-blank',
+      message:
+        'Leave a blank line between the header and the body',
+      line: 2,
+      column: 1,
+    });
+
+  lines.forEach((text, i) => {
+    if (i === 0) return;
+    const line = i + 1;
+    // Long URLs can't be wrapped.
+    if (
+      text.length > maxLineLength &&
+      !text.includes('://')
+    )
+      issues.push({
+        rule: 'body-max-line-length',
+        message: `Line is ${text.length} characters long; the limit is ${maxLineLength}`,
+        line,
+        column: maxLineLength + 1,
+        length: text.length - maxLineLength,
+      });
+
+    const breaking = text.match(/^breaking[ -]changes?:/i);
+    if (!breaking) return;
+    if (!/^BREAKING[ -]CHANGE: \S/.test(text))
+      issues.push({
+        rule: 'footer-breaking-format',
+        message:
+          'Breaking change footers must read "BREAKING CHANGE: <description>"',
+        line,
+        column: 1,
+        length: breaking[0].length,
+        hint: 'Otherwise the release will not be a major one.',
+      });
+    const previous = lines[i - 1];
+    if (
+      config.footer.leadingBlank &&
+      i > 1 &&
+      previous.trim() &&
+      !FOOTER.test(previous)
+    )
+      issues.push({
+        rule: 'footer-leading-blank',
+        message:
+          'Leave a blank line before the BREAKING CHANGE footer',
+        line,
+        column: 1,
+      });
+  });
+  return issues;
+}
+
+/**
+ * Checks a commit message against `config`. Messages git generates
+ * for merges, reverts and fixups are accepted as they are.
+ */
+export function lintCommitMessage(
+  message: string,
+  config: ReleaseConfig = releaseConfig,
+): LintIssue[] {
+  const lines = cleanMessage(message).split('\n');
+  if (!lines[0].trim())
+    return [
+      {
+        rule: 'header-empty',
+        message: 'Commit message is empty',
+        line: 1,
+        column: 1,
+      },
+    ];
+  if (GENERATED.test(lines[0])) return [];
+  return [
+    ...lintHeader(lines[0], config),
+    ...lintBody(lines, config),
+  ];
+}
+
+/**
+ * Renders issues with the offending line and a marker under the
+ * problem, like a compiler error.
+ */
+export function formatIssues(
+  message: string,
+  issues: LintIssue[],
+): string {
+  const lines = cleanMessage(message).split('\n');
+  return issues
+    .map(issue => {
+      const gutter = String(issue.line);
+      const pad = ' '.repeat(gutter.length);
+      return [
+        `✖ ${issue.message} [${issue.rule}]`,
+        `  ${gutter} | ${lines[issue.line - 1] ?? ''}`,
+        `  ${pad} | ${' '.repeat(issue.column - 1)}${'^'.repeat(issue.length ?? 1)}`,
+        ...(issue.hint ? [`  ${issue.hint}`] : []),
+      ].join('\n');
+    })
+    .join('\n\n');
+}
+
+if (import.meta.main) {
+  const [file] = process.argv.slice(2);
+  if (!file) {
+    console.error(
+      'Usage: bun ./scripts/commit-lint.ts <commit-msg-file>',
+    );
+    process.exit(2);
+  }
+  const message = fs.readFileSync(file, 'utf-8');
+  const issues = lintCommitMessage(message);
+  if (issues.length > 0) {
+    console.error(
+      `\nAborting commit. Your commit message is invalid.\n\n${formatIssues(message, issues)}\n`,
+    );
+    process.exit(1);
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'bun:test';
+import { releaseConfig } from '../release.config';
+import {
+  formatBumpTable,
+  highestBump,
+  parseCommit,
+} from './commits';
+import type { ReleaseConfig } from './release-config';
+
+describe('parseCommit', () => {
+  it('parses the type, scope and subject', () => {
+    expect(
+      parseCommit('a1', 'feat(api): add users (#12)'),
+    ).toMatchObject({
+      type: 'feat',
+      scope: 'api',
+      subject: 'add users',
+      pr: 12,
+      breaking: false,
+      bump: 'minor',
+    });
+    expect(parseCommit('a2', 'fix: typo').bump).toBe(
+      'patch',
+    );
+  });
+
+  it('marks breaking changes from the header or a footer', () => {
+    expect(
+      parseCommit('b1', 'fix!: drop node 18').bump,
+    ).toBe('major');
+    const commit = parseCommit(
+      'b2',
+      'refactor: rename options\n\nBody text.\n\nBREAKING CHANGE: `delay` is now\n`delayMs`.\nRefs: #4',
+    );
+    expect(commit.bump).toBe('major');
+    expect(commit.breakingNote).toBe(
+      '`delay` is now\n`delayMs`.',
+    );
+  });
+
+  it('ignores breaking change wording outside a footer', () => {
+    expect(
+      parseCommit(
+        'c1',
+        'docs: explain BREAKING CHANGE: footers\n\nMention BREAKING CHANGE in prose.',
+      ).bump,
+    ).toBe('patch');
+  });
+
+  it('reads the header from the body of merge commits', () => {
+    expect(
+      parseCommit(
+        'd1',
+        'Merge pull request #7 from org/branch\n\nfeat: add x',
+      ),
+    ).toMatchObject({
+      type: 'feat',
+      bump: 'minor',
+      merge: true,
+    });
+  });
+
+  it('treats other commits as patches', () => {
+    expect(
+      parseCommit('e1', 'Update README.md'),
+    ).toMatchObject({
+      type: undefined,
+      subject: 'Update README.md',
+      bump: 'patch',
+    });
+  });
+});
+
+describe('parseCommit with a config', () => {
+  it('uses the configured types and bumps', () => {
+    const config: ReleaseConfig = {
+      ...releaseConfig,
+      types: {
+        feat: { bump: 'minor' },
+        perf: { bump: 'minor' },
+      },
+    };
+    expect(
+      parseCommit('f1', 'perf: faster', config).bump,
+    ).toBe('minor');
+    expect(
+      parseCommit('f2', 'fix: not allowed', config),
+    ).toMatchObject({ type: undefined, bump: 'patch' });
+  });
+});
+
+describe('highestBump', () => {
+  it('takes the highest bump of any commit', () => {
+    expect(
+      highestBump([
+        { bump: 'patch' },
+        { bump: 'major' },
+        { bump: 'minor' },
+      ]),
+    ).toBe('major');
+    expect(highestBump([])).toBeUndefined();
+  });
+});
+
+describe('formatBumpTable', () => {
+  it('marks the commits that decided the bump', () => {
+    const table = formatBumpTable([
+      parseCommit('1111111aaa', 'fix(ui): align'),
+      parseCommit('2222222bbb', 'feat: add y'),
+    ]).split('\n');
+    expect(table).toEqual([
+      'Commit   Type     Bump     Subject',
+      '-------  -------  -------  -------',
+      '1111111  fix(ui)  patch    align',
+      '2222222  feat     minor *  add y',
+    ]);
+  });
+});
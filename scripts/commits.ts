@@ -0,0 +1,166 @@
+import { releaseConfig } from '../release.config';
+import type { ReleaseConfig } from './release-config';
+
+export type BumpType = 'major' | 'minor' | 'patch';
+
+/**
+ * A commit from `git log`, parsed as a Conventional Commit where
+ * possible.
+ */
+export interface ParsedCommit {
+  hash: string;
+  /** `undefined` for commits that don't follow the convention. */
+  type?: string;
+  scope?: string;
+  /** The header description without a trailing `(#123)`. */
+  subject: string;
+  /** Pull request number from a trailing `(#123)`. */
+  pr?: number;
+  /** Set by a `!` before the colon or a `BREAKING CHANGE:` footer. */
+  breaking: boolean;
+  /** The `BREAKING CHANGE:` footer text, if any. */
+  breakingNote?: string;
+  bump: BumpType;
+  /** Set for merge commits, whose header comes from the body. */
+  merge: boolean;
+}
+
+const BUMP_ORDER: BumpType[] = ['patch', 'minor', 'major'];
+
+/**
+ * `type(scope)!: description`, capturing the type, scope, `!` and
+ * description.
+ */
+export const HEADER = /^(\w+)(?:\(([^)]+)\))?(!)?: (.+)$/;
+
+/** The `(#123)` that GitHub appends to squash-merged subjects. */
+const PR_SUFFIX = /\s*\(#(\d+)\)$/;
+
+/**
+ * Matches a `BREAKING CHANGE:` (or `BREAKING-CHANGE:`) footer and
+ * captures its text up to a blank line or the next footer.
+ */
+const BREAKING_FOOTER =
+  /^BREAKING[ -]CHANGE: (.+(?:\n(?!\n|[\w-]+: |[\w-]+ #).*)*)/m;
+
+/**
+ * Finds the Conventional Commit header with an allowed type. Merge
+ * commits such as "Merge pull request #123 from branch\n\nfeat:
+ * message" carry it in the body instead of the subject.
+ */
+function findHeader(
+  lines: string[],
+  types: ReleaseConfig['types'],
+): RegExpMatchArray | null {
+  const match = (line: string) => {
+    const header = line.match(HEADER);
+    return header && Object.hasOwn(types, header[1])
+      ? header
+      : null;
+  };
+  const [subject = ''] = lines;
+  const own = match(subject);
+  if (own || !subject.startsWith('Merge')) return own;
+  for (const line of lines.slice(1)) {
+    const header = match(line);
+    if (header) return header;
+  }
+  return null;
+}
+
+/**
+ * Parses a full commit message. Only the header's `!` and a footer
+ * starting with `BREAKING CHANGE:` mark a breaking change; the words
+ * elsewhere in the message do not. Other commits get the bump of
+ * their type in `config`, or a patch.
+ */
+export function parseCommit(
+  hash: string,
+  message: string,
+  { types }: ReleaseConfig = releaseConfig,
+): ParsedCommit {
+  const lines = message.trim().split('\n');
+  const header = findHeader(lines, types);
+  const breakingNote = lines
+    .slice(1)
+    .join('\n')
+    .match(BREAKING_FOOTER)?.[1]
+    .trim();
+  const breaking = Boolean(header?.[3] || breakingNote);
+  const description = header?.[4] ?? lines[0];
+  const pr = description.match(PR_SUFFIX);
+
+  return {
+    hash,
+    type: header?.[1],
+    scope: header?.[2],
+    subject: pr
+      ? description.slice(0, pr.index).trimEnd()
+      : description,
+    pr: pr ? Number(pr[1]) : undefined,
+    breaking,
+    breakingNote,
+    bump: breaking
+      ? 'major'
+      : header
+        ? types[header[1]].bump
+        : 'patch',
+    merge: lines[0].startsWith('Merge'),
+  };
+}
+
+/**
+ * The highest bump required by any of `commits`, or `undefined` when
+ * there are none.
+ */
+export function highestBump(
+  commits: Pick<ParsedCommit, 'bump'>[],
+): BumpType | undefined {
+  let highest: number | undefined;
+  for (const { bump } of commits)
+    highest = Math.max(
+      highest ?? 0,
+      BUMP_ORDER.indexOf(bump),
+    );
+  return highest === undefined
+    ? undefined
+    : BUMP_ORDER[highest];
+}
+
+/**
+ * Renders commits as a table of what each one contributed, marking
+ * the ones that decided the bump.
+ */
+export function formatBumpTable(
+  commits: ParsedCommit[],
+): string {
+  const decisive = highestBump(commits);
+  const rows = commits.map(c => [
+    c.hash.slice(0, 7),
+    c.type
+      ? `${c.type}${c.scope ? `(${c.scope})` : ''}${c.breaking ? '!' : ''}`
+      : '-',
+    c.bump === decisive ? `${c.bump} *` : c.bump,
+    c.subject,
+  ]);
+  const table = [
+    ['Commit', 'Type', 'Bump', 'Subject'],
+    ...rows,
+  ];
+  const widths = table[0].map((_, i) =>
+    Math.max(...table.map(row => row[i].length)),
+  );
+  const render = (row: string[]) =>
+    row
+      .map((cell, i) =>
+        i === row.length - 1
+          ? cell
+          : cell.padEnd(widths[i]),
+      )
+      .join('  ');
+  return [
+    render(table[0]),
+    render(widths.map(w => '-'.repeat(w))),
+    ...rows.map(render),
+  ].join('\n');
+}
@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it } from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  parseAnnotations,
+  parseEnvFile,
+} from './env-sample';
+
+describe('parseAnnotations', () => {
+  it('reads the type and strips annotations from the description', () => {
+    expect(
+      parseAnnotations('HTTP  port @number', 'test'),
+    ).toEqual({
+      description: 'HTTP port',
+      type: 'number',
+      optional: false,
+    });
+  });
+
+  it('reads enum values and @optional', () => {
+    expect(
+      parseAnnotations(
+        'Log level @enum(debug | info|warn) @optional',
+        'test',
+      ),
+    ).toEqual({
+      description: 'Log level',
+      type: 'enum',
+      values: ['debug', 'info', 'warn'],
+      optional: true,
+    });
+  });
+
+  it('defaults to an unannotated string', () => {
+    expect(parseAnnotations('', 'test')).toEqual({
+      description: '',
+      type: 'string',
+      optional: false,
+    });
+  });
+
+  it('rejects unknown annotations and empty enums', () => {
+    expect(() =>
+      parseAnnotations(
+        'Port @integer',
+        '.env.sample (PORT)',
+      ),
+    ).toThrow(
+      'Unknown annotation @integer in .env.sample (PORT)',
+    );
+    expect(() =>
+      parseAnnotations('Mode @enum()', 'x'),
+    ).toThrow('@enum needs values');
+  });
+});
+
+describe('parseEnvFile', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir)
+      fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('parses variables and skips comments and blank lines', () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-'));
+    const filePath = path.join(dir, '.env.sample');
+    fs.writeFileSync(
+      filePath,
+      [
+        '# Server',
+        'PORT=3000 # HTTP port @number',
+        '',
+        'CORS_ORIGINS= # Allowed origins @list @optional',
+        'NAME=app',
+      ].join('\n'),
+    );
+    expect(parseEnvFile(filePath, '.env.sample')).toEqual([
+      {
+        name: 'PORT',
+        value: '3000',
+        source: '.env.sample',
+        description: 'HTTP port',
+        type: 'number',
+        optional: false,
+      },
+      {
+        name: 'CORS_ORIGINS',
+        value: '',
+        source: '.env.sample',
+        description: 'Allowed origins',
+        type: 'list',
+        optional: true,
+      },
+      {
+        name: 'NAME',
+        value: 'app',
+        source: '.env.sample',
+        description: '',
+        type: 'string',
+        optional: false,
+      },
+    ]);
+  });
+});
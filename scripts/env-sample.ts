@@ -0,0 +1,166 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import * as glob from 'glob';
+import type { EnvVarType } from '../src/env';
+
+/**
+ * A variable parsed from a `.env.sample` line such as
+ * `PORT=3000 # HTTP port @number`.
+ *
+ * Annotations in the comment describe how `loadEnv` validates it:
+ * `@number`, `@boolean`, `@url`, `@duration`, `@list`,
+ * `@enum(a|b|c)` and `@optional`. Variables without a type annotation
+ * are strings.
+ */
+export interface ParsedVariable {
+  name: string;
+  value: string;
+  description: string;
+  source: string;
+  type: EnvVarType;
+  /** Allowed values for `enum` variables. */
+  values?: string[];
+  optional: boolean;
+}
+
+const TYPES = new Set<string>([
+  'string',
+  'number',
+  'boolean',
+  'url',
+  'duration',
+  'list',
+  'enum',
+]);
+
+/**
+ * Finds all .env.sample files.
+ */
+export function findAllEnvSampleFiles(): string[] {
+  const rootDir = process.cwd();
+  const patterns = [path.join(rootDir, '.env.sample')];
+
+  const envFiles: string[] = [];
+  for (const pattern of patterns) {
+    const matches = glob.sync(pattern, {
+      ignore: ['**/node_modules/**'],
+    });
+    envFiles.push(...matches);
+  }
+
+  return envFiles.sort();
+}
+
+/**
+ * Splits a comment into its description and `@` annotations.
+ */
+export function parseAnnotations(
+  comment: string,
+  location: string,
+): Pick<
+  ParsedVariable,
+  'description' | 'type' | 'values' | 'optional'
+> {
+  const result: ReturnType<typeof parseAnnotations> = {
+    description: '',
+    type: 'string',
+    optional: false,
+  };
+  const annotation = /@(\w+)(?:\(([^)]*)\))?/g;
+
+  for (const [, tag, args] of comment.matchAll(
+    annotation,
+  )) {
+    if (tag === 'optional') {
+      result.optional = true;
+      continue;
+    }
+    if (!TYPES.has(tag))
+      throw new Error(
+        `Unknown annotation @${tag} in ${location}`,
+      );
+    result.type = tag as EnvVarType;
+    if (tag === 'enum')
+      result.values = (args ?? '')
+        .split('|')
+        .map(v => v.trim())
+        .filter(Boolean);
+  }
+
+  if (result.type === 'enum' && !result.values?.length)
+    throw new Error(
+      `@enum needs values, e.g. @enum(a|b), in ${location}`,
+    );
+  result.description = comment
+    .replace(annotation, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return result;
+}
+
+/**
+ * Parses a single .env.sample file and returns the parsed variables.
+ */
+export function parseEnvFile(
+  filePath: string,
+  relativePath: string,
+): ParsedVariable[] {
+  if (!fs.existsSync(filePath)) {
+    console.warn(
+      `Warning: .env.sample file not found at ${filePath}`,
+    );
+    return [];
+  }
+
+  const fileContent = fs.readFileSync(filePath, 'utf-8');
+  const lines = fileContent.split('\n');
+  const parsedVars: ParsedVariable[] = [];
+
+  for (const line of lines) {
+    if (!line.trim() || line.trim().startsWith('#')) {
+      continue;
+    }
+
+    const match = line.match(/^([^#=]+)=([^#]*)#?(.*)$/);
+    if (match) {
+      const [, name, value, comment] = match.map(s =>
+        s.trim(),
+      );
+      parsedVars.push({
+        name,
+        value,
+        source: relativePath,
+        ...parseAnnotations(
+          comment,
+          `${relativePath} (${name})`,
+        ),
+      });
+    }
+  }
+
+  return parsedVars;
+}
+
+/**
+ * Parses every .env.sample file, exiting when none exist.
+ */
+export function loadEnvSamples(): ParsedVariable[] {
+  const envFiles = findAllEnvSampleFiles();
+  if (envFiles.length === 0) {
+    console.error('Error: No .env.sample files found');
+    process.exit(1);
+  }
+
+  console.log(
+    `Found ${envFiles.length} .env.sample files:`,
+  );
+  // biome-ignore lint/suspicious/useIterableCallbackReturn: nn
+  envFiles.forEach(file => console.log(`  - ${file}`));
+
+  return envFiles.flatMap(filePath =>
+    parseEnvFile(
+      filePath,
+      path.relative(process.cwd(), filePath),
+    ),
+  );
+}
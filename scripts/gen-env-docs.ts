@@ -1,6 +1,9 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import * as glob from 'glob';
+import {
+  loadEnvSamples,
+  type ParsedVariable,
+} from './env-sample';
 
 /**
  * Configuration for grouping environment variables.
@@ -23,13 +26,6 @@ const groupConfig: Record<string, string | string[]> = {
   General: '',
 };
 
-interface ParsedVariable {
-  name: string;
-  value: string;
-  description: string;
-  source: string;
-}
-
 /**
  * Main function to generate the documentation.
  */
@@ -38,29 +34,7 @@ function generateEnvDocs(): void {
     'Generating environment variable documentation...',
   );
 
-  const envFiles = findAllEnvSampleFiles();
-  if (envFiles.length === 0) {
-    console.error('Error: No .env.sample files found');
-    process.exit(1);
-  }
-
-  console.log(
-    `Found ${envFiles.length} .env.sample files:`,
-  );
-  // biome-ignore lint/suspicious/useIterableCallbackReturn: nn
-  envFiles.forEach(file => console.log(`  - ${file}`));
-
-  const allParsedVars: ParsedVariable[] = [];
-
-  for (const filePath of envFiles) {
-    const relativePath = path.relative(
-      process.cwd(),
-      filePath,
-    );
-    const parsedVars = parseEnvFile(filePath, relativePath);
-    allParsedVars.push(...parsedVars);
-  }
-
+  const allParsedVars = loadEnvSamples();
   const groupedVars = groupVariables(allParsedVars);
   const markdownContent = generateMarkdown(groupedVars);
   writeMarkdownFile(markdownContent);
@@ -68,64 +42,6 @@ function generateEnvDocs(): void {
   console.log('✅ Successfully generated env-vars.md');
 }
 
-/**
- * Finds all .env.sample files.
- */
-function findAllEnvSampleFiles(): string[] {
-  const rootDir = process.cwd();
-  const patterns = [path.join(rootDir, '.env.sample')];
-
-  const envFiles: string[] = [];
-  for (const pattern of patterns) {
-    const matches = glob.sync(pattern, {
-      ignore: ['**/node_modules/**'],
-    });
-    envFiles.push(...matches);
-  }
-
-  return envFiles.sort();
-}
-
-/**
- * Parses a single .env.sample file and returns the parsed variables.
- */
-function parseEnvFile(
-  filePath: string,
-  relativePath: string,
-): ParsedVariable[] {
-  if (!fs.existsSync(filePath)) {
-    console.warn(
-      `Warning: .env.sample file not found at ${filePath}`,
-    );
-    return [];
-  }
-
-  const fileContent = fs.readFileSync(filePath, 'utf-8');
-  const lines = fileContent.split('\n');
-  const parsedVars: ParsedVariable[] = [];
-
-  for (const line of lines) {
-    if (!line.trim() || line.trim().startsWith('#')) {
-      continue;
-    }
-
-    const match = line.match(/^([^#=]+)=([^#]*)#?(.*)$/);
-    if (match) {
-      const [, name, value, description] = match.map(s =>
-        s.trim(),
-      );
-      parsedVars.push({
-        name,
-        value,
-        description,
-        source: relativePath,
-      });
-    }
-  }
-
-  return parsedVars;
-}
-
 /**
  * Groups the parsed variables based on the groupConfig affixes.
  */
@@ -197,8 +113,8 @@ function generateMarkdown(
 
     markdown += `### ${title}\n\n`;
     markdown +=
-      '| Variable | Description | Default Value | Source |\n';
-    markdown += '|---|---|---|---|\n';
+      '| Variable | Type | Description | Default Value | Source |\n';
+    markdown += '|---|---|---|---|---|\n';
 
     const uniqueVars = vars.reduce(
       (acc: ParsedVariable[], current: ParsedVariable) => {
@@ -218,7 +134,7 @@ function generateMarkdown(
     for (const v of uniqueVars) {
       const description =
         v.description || 'No description provided.';
-      markdown += `| \`${v.name}\` | ${description} | \`${v.value}\` | ${v.source} |\n`;
+      markdown += `| \`${v.name}\` | ${formatType(v)} | ${description} | \`${v.value}\` | ${v.source} |\n`;
     }
     markdown += '\n';
   }
@@ -226,6 +142,17 @@ function generateMarkdown(
   return markdown;
 }
 
+/**
+ * Renders the type column, e.g. `enum (a, b)`, with `optional` when it
+ * may be left unset.
+ */
+function formatType(v: ParsedVariable): string {
+  const type = v.values
+    ? `${v.type} (${v.values.join(', ')})`
+    : v.type;
+  return v.optional ? `${type}, optional` : type;
+}
+
 /**
  * Writes the generated Markdown content to a file.
  */
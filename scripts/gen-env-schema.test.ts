@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'bun:test';
+import type { ParsedVariable } from './env-sample';
+import {
+  checkDefaults,
+  quote,
+  renderEntry,
+  renderSchema,
+} from './gen-env-schema';
+
+const variable = (
+  overrides: Partial<ParsedVariable>,
+): ParsedVariable => ({
+  name: 'NAME',
+  value: '',
+  description: '',
+  source: '.env.sample',
+  type: 'string',
+  optional: false,
+  ...overrides,
+});
+
+describe('quote', () => {
+  it('escapes quotes and backslashes', () => {
+    expect(quote(`it's C:\\tmp`)).toBe(
+      `'it\\'s C:\\\\tmp'`,
+    );
+  });
+});
+
+describe('renderEntry', () => {
+  it('renders the type, values, default and description', () => {
+    expect(
+      renderEntry(
+        variable({
+          name: 'LOG_LEVEL',
+          value: 'info',
+          type: 'enum',
+          values: ['debug', 'info'],
+          description: "Level, e.g. 'info'",
+        }),
+      ),
+    ).toBe(
+      [
+        '  LOG_LEVEL: {',
+        "    type: 'enum',",
+        "    values: ['debug', 'info'],",
+        "    default: 'info',",
+        "    description: 'Level, e.g. \\'info\\'',",
+        '  },',
+      ].join('\n'),
+    );
+  });
+
+  it('marks optional variables without a default', () => {
+    expect(
+      renderEntry(
+        variable({ type: 'list', optional: true }),
+      ),
+    ).toBe(
+      "  NAME: {\n    type: 'list',\n    optional: true,\n  },",
+    );
+  });
+});
+
+describe('renderSchema', () => {
+  it('exports the schema with its sources', () => {
+    expect(renderSchema([variable({ value: 'x' })])).toBe(
+      [
+        '// Generated by scripts/gen-env-schema.ts from .env.sample.',
+        '// Do not edit; update the .env.sample annotations instead.',
+        '',
+        'export const envSchema = {',
+        "  NAME: {\n    type: 'string',\n    default: 'x',\n  },",
+        '} as const;',
+        '',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('checkDefaults', () => {
+  it('accepts valid sample values and required variables', () => {
+    expect(() =>
+      checkDefaults([
+        variable({
+          name: 'PORT',
+          value: '3000',
+          type: 'number',
+        }),
+        variable({
+          name: 'TIMEOUT',
+          value: '1m',
+          type: 'duration',
+        }),
+        variable({ name: 'SECRET' }),
+      ]),
+    ).not.toThrow();
+  });
+
+  it('rejects sample values loadEnv would reject', () => {
+    expect(() =>
+      checkDefaults([
+        variable({
+          name: 'PORT',
+          value: 'abc',
+          type: 'number',
+        }),
+        variable({
+          name: 'LOG_LEVEL',
+          value: 'loud',
+          type: 'enum',
+          values: ['debug', 'info'],
+        }),
+      ]),
+    ).toThrow(
+      [
+        'Invalid sample values:',
+        '  - PORT in .env.sample: expected a number, got "abc"',
+        '  - LOG_LEVEL in .env.sample: expected one of debug, info, got "loud"',
+      ].join('\n'),
+    );
+  });
+});
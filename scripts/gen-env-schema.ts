@@ -0,0 +1,132 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  EnvError,
+  type EnvSchema,
+  type EnvVarSpec,
+  loadEnv,
+} from '../src/env';
+import {
+  loadEnvSamples,
+  type ParsedVariable,
+} from './env-sample';
+
+/**
+ * Where the schema is written. Override with `ENV_SCHEMA_OUT`.
+ */
+const outputPath = path.resolve(
+  process.cwd(),
+  process.env.ENV_SCHEMA_OUT ?? 'env.schema.ts',
+);
+
+/**
+ * Main function to generate the `loadEnv` schema.
+ */
+function generateEnvSchema(): void {
+  console.log('Generating environment variable schema...');
+
+  const vars = dedupe(loadEnvSamples());
+  checkDefaults(vars);
+  fs.writeFileSync(outputPath, renderSchema(vars));
+
+  console.log(
+    `✅ Successfully generated ${path.relative(process.cwd(), outputPath)}`,
+  );
+}
+
+/**
+ * Keeps the first definition of each variable, like the docs do.
+ */
+function dedupe(vars: ParsedVariable[]): ParsedVariable[] {
+  const seen = new Map<string, ParsedVariable>();
+  for (const v of vars)
+    if (!seen.has(v.name)) seen.set(v.name, v);
+  return [...seen.values()];
+}
+
+/**
+ * Throws when a sample value would fail validation as a default,
+ * coercing it the way `loadEnv` does at runtime.
+ */
+export function checkDefaults(
+  vars: ParsedVariable[],
+): void {
+  const withDefaults = vars.filter(v => v.value);
+  const schema: EnvSchema = Object.fromEntries(
+    withDefaults.map(v => [
+      v.name,
+      {
+        type: v.type,
+        values: v.values,
+        default: v.value,
+      } as EnvVarSpec,
+    ]),
+  );
+  try {
+    loadEnv(schema, { env: {} });
+  } catch (error) {
+    if (!(error instanceof EnvError)) throw error;
+    const sources = new Map(
+      withDefaults.map(v => [v.name, v.source]),
+    );
+    throw new Error(
+      `Invalid sample values:\n${error.issues
+        .map(
+          issue =>
+            `  - ${issue.name} in ${sources.get(issue.name)}: ${issue.message}`,
+        )
+        .join('\n')}`,
+    );
+  }
+}
+
+/**
+ * Quotes a string as a single-quoted TypeScript literal.
+ */
+export function quote(value: string): string {
+  return `'${value.replace(/[\\']/g, '\\$&')}'`;
+}
+
+/**
+ * Renders one schema entry. Sample values become defaults, so a
+ * variable without a sample value is required unless `@optional`.
+ */
+export function renderEntry(v: ParsedVariable): string {
+  const fields = [`type: '${v.type}'`];
+  if (v.values)
+    fields.push(
+      `values: [${v.values.map(quote).join(', ')}]`,
+    );
+  if (v.value) fields.push(`default: ${quote(v.value)}`);
+  if (v.optional) fields.push('optional: true');
+  if (v.description)
+    fields.push(`description: ${quote(v.description)}`);
+  return `  ${v.name}: {\n${fields.map(f => `    ${f},`).join('\n')}\n  },`;
+}
+
+/**
+ * Renders the module exporting `envSchema` for `loadEnv`.
+ */
+export function renderSchema(
+  vars: ParsedVariable[],
+): string {
+  const sources = [...new Set(vars.map(v => v.source))];
+  return [
+    `// Generated by scripts/gen-env-schema.ts from ${sources.join(', ')}.`,
+    '// Do not edit; update the .env.sample annotations instead.',
+    '',
+    'export const envSchema = {',
+    ...vars.map(renderEntry),
+    '} as const;',
+    '',
+  ].join('\n');
+}
+
+if (import.meta.main) {
+  try {
+    generateEnvSchema();
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
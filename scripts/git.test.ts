@@ -0,0 +1,139 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from 'bun:test';
+import { execFileSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { createGit, credentialEnv, type Git } from './git';
+
+let dir: string;
+let git: Git;
+
+const commitFile = (
+  file: string,
+  message: string,
+): void => {
+  const filePath = path.join(dir, file);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.appendFileSync(filePath, `${message}\n`);
+  git.add([file]);
+  git.commit(message);
+};
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-'));
+  git = createGit(dir);
+  git.run(['init', '--initial-branch=main']);
+  git.run(['config', 'user.name', 'Test']);
+  git.run(['config', 'user.email', 'test@example.com']);
+  git.run(['config', 'tag.gpgSign', 'false']);
+  git.run(['config', 'commit.gpgSign', 'false']);
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('createGit', () => {
+  it('reads commits since the last release tag', () => {
+    commitFile('a.txt', 'feat: first');
+    git.tag('v1.0.0', 'Release 1.0.0');
+    commitFile('a.txt', 'fix: second');
+    commitFile('b.txt', 'feat: third\n\nWith a body.');
+
+    expect(git.lastRelease()).toBe('v1.0.0');
+    expect(
+      git.commitsSince('v1.0.0').map(c => c.message),
+    ).toEqual([
+      'fix: second',
+      'feat: third\n\nWith a body.',
+    ]);
+    expect(
+      git.commitsSince(undefined, ['a.txt']).length,
+    ).toBe(2);
+  });
+
+  it('falls back to the last release commit', () => {
+    expect(git.currentBranch()).toBe('main');
+    commitFile('a.txt', 'feat: first');
+    expect(git.lastRelease()).toBeUndefined();
+    commitFile(
+      'package.json',
+      'chore(release): bump version to 0.1.0',
+    );
+    commitFile('a.txt', 'fix: after');
+    const since = git.lastRelease();
+    expect(git.commitsSince(since)).toEqual([
+      { hash: expect.any(String), message: 'fix: after' },
+    ]);
+  });
+
+  it('keeps shell syntax in messages literal', () => {
+    const message =
+      'fix: handle "quotes", $(whoami) and `ticks`';
+    commitFile('a.txt', message);
+    git.tag('v1.0.0', message);
+    expect(git.run(['log', '-1', '--format=%s'])).toBe(
+      message,
+    );
+    expect(git.run(['cat-file', '-t', 'v1.0.0'])).toBe(
+      'tag',
+    );
+    expect(
+      git.run([
+        'tag',
+        '-l',
+        '--format=%(contents:subject)',
+        'v1.0.0',
+      ]),
+    ).toBe(message);
+  });
+
+  it('pushes the branch and tags to a remote', () => {
+    const remote = fs.mkdtempSync(
+      path.join(os.tmpdir(), 'git-remote-'),
+    );
+    try {
+      createGit(remote).run(['init', '--bare']);
+      git.run(['remote', 'add', 'origin', remote]);
+      commitFile('a.txt', 'feat: first');
+      git.tag('v1.0.0', 'Release 1.0.0');
+      git.push({ branch: 'release', tags: ['v1.0.0'] });
+
+      const pushed = createGit(remote);
+      expect(
+        pushed.run(['rev-parse', 'refs/heads/release']),
+      ).toBe(git.run(['rev-parse', 'HEAD']));
+      expect(pushed.run(['cat-file', '-t', 'v1.0.0'])).toBe(
+        'tag',
+      );
+    } finally {
+      fs.rmSync(remote, { recursive: true, force: true });
+    }
+  });
+
+  it('answers credential requests with the token', () => {
+    const output = execFileSync(
+      'git',
+      ['credential', 'fill'],
+      {
+        cwd: dir,
+        input: 'protocol=https\nhost=github.com\n\n',
+        env: { ...process.env, ...credentialEnv('s3cret') },
+      },
+    ).toString();
+    expect(output).toContain('username=x-access-token\n');
+    expect(output).toContain('password=s3cret\n');
+  });
+
+  it('reports the failing command', () => {
+    expect(() => git.run(['rev-parse', 'missing'])).toThrow(
+      /^git rev-parse failed: /,
+    );
+  });
+});
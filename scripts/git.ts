@@ -0,0 +1,170 @@
+import { execFileSync } from 'node:child_process';
+
+/**
+ * A commit as read from `git log`.
+ */
+export interface GitCommit {
+  hash: string;
+  message: string;
+}
+
+export interface PushOptions {
+  branch: string;
+  /** Tags to push together with the branch. */
+  tags?: string[];
+  /**
+   * Answered through a credential helper instead of being put in the
+   * URL. Git only asks for it when the remote is not already
+   * authenticated, e.g. by `actions/checkout` persisting its own.
+   */
+  token?: string;
+  /** Defaults to `origin`. */
+  remote?: string;
+}
+
+/**
+ * The git operations the release scripts need. Every command runs
+ * with an argument array, so messages and names are never
+ * interpreted by a shell.
+ */
+export interface Git {
+  /** Runs `git` with `args` and returns its trimmed output. */
+  run(args: string[], env?: Record<string, string>): string;
+  currentBranch(): string;
+  /**
+   * The latest tag matching `match` reachable from HEAD, or else the
+   * latest `chore(release):` commit. `undefined` when there is
+   * neither.
+   */
+  lastRelease(match?: string): string | undefined;
+  /**
+   * Commits after `since`, or all commits, oldest first. `paths`
+   * limits them to commits touching those paths.
+   */
+  commitsSince(
+    since: string | undefined,
+    paths?: string[],
+  ): GitCommit[];
+  add(paths: string[]): void;
+  /** Commits staged changes, skipping hooks. */
+  commit(message: string): void;
+  /** Creates an annotated tag on HEAD. */
+  tag(name: string, message: string): void;
+  /** Pushes HEAD to `branch` and the tags, atomically. */
+  push(options: PushOptions): void;
+}
+
+/**
+ * Environment that answers git's credential requests with `token`,
+ * keeping it out of the command line and error messages. An
+ * `http.extraheader` would be sent alongside any saved by
+ * `actions/checkout`, which GitHub rejects as a duplicate.
+ */
+export function credentialEnv(
+  token: string,
+): Record<string, string> {
+  return {
+    GIT_RELEASE_TOKEN: token,
+    GIT_TERMINAL_PROMPT: '0',
+    GIT_CONFIG_COUNT: '2',
+    // An empty value clears the helpers configured so far.
+    GIT_CONFIG_KEY_0: 'credential.helper',
+    GIT_CONFIG_VALUE_0: '',
+    GIT_CONFIG_KEY_1: 'credential.helper',
+    GIT_CONFIG_VALUE_1:
+      '!f() { test "$1" = get && echo username=x-access-token && echo "password=$GIT_RELEASE_TOKEN"; }; f',
+  };
+}
+
+const RECORD = '\x1e';
+const FIELD = '\x1f';
+
+/**
+ * Creates a `Git` that runs in `cwd`.
+ */
+export function createGit(cwd = process.cwd()): Git {
+  const run: Git['run'] = (args, env) => {
+    try {
+      return execFileSync('git', args, {
+        cwd,
+        stdio: 'pipe',
+        env: { ...process.env, ...env },
+        maxBuffer: 64 * 1024 * 1024,
+      })
+        .toString()
+        .trim();
+    } catch (error) {
+      const stderr = (error as { stderr?: Buffer }).stderr
+        ?.toString()
+        .trim();
+      throw new Error(
+        `git ${args[0]} failed${stderr ? `: ${stderr}` : ''}`,
+        { cause: error },
+      );
+    }
+  };
+
+  return {
+    run,
+    currentBranch: () => run(['branch', '--show-current']),
+    lastRelease(match = 'v[0-9]*') {
+      try {
+        return run([
+          'describe',
+          '--tags',
+          '--abbrev=0',
+          '--match',
+          match,
+        ]);
+      } catch {
+        return (
+          run([
+            'log',
+            '-1',
+            '--format=%H',
+            '--grep=^chore(release):',
+          ]) || undefined
+        );
+      }
+    },
+    commitsSince(since, paths = []) {
+      const output = run([
+        'log',
+        '--reverse',
+        `--format=%H${FIELD}%B${RECORD}`,
+        ...(since ? [`${since}..HEAD`] : []),
+        '--',
+        ...paths,
+      ]);
+      return output
+        .split(RECORD)
+        .map(record => record.trim())
+        .filter(Boolean)
+        .map(record => {
+          const [hash, message = ''] = record.split(FIELD);
+          return { hash, message: message.trim() };
+        });
+    },
+    add(paths) {
+      run(['add', '--', ...paths]);
+    },
+    commit(message) {
+      run(['commit', '--no-verify', '-m', message]);
+    },
+    tag(name, message) {
+      run(['tag', '--annotate', name, '-m', message]);
+    },
+    push({ branch, tags = [], token, remote = 'origin' }) {
+      run(
+        [
+          'push',
+          '--atomic',
+          remote,
+          `HEAD:refs/heads/${branch}`,
+          ...tags.map(tag => `refs/tags/${tag}`),
+        ],
+        token ? credentialEnv(token) : undefined,
+      );
+    },
+  };
+}
@@ -0,0 +1,29 @@
+import type { BumpType } from './commits';
+
+export interface CommitTypeRule {
+  /** Bump released for this type, unless the commit is breaking. */
+  bump: BumpType;
+  /** Shown by the linter next to the list of types. */
+  description?: string;
+}
+
+export interface ReleaseConfig {
+  /** Allowed commit types, in the order they are listed in errors. */
+  types: Record<string, CommitTypeRule>;
+  /** Allowed scopes. Any scope is accepted when omitted. */
+  scopes?: readonly string[];
+  header: {
+    /** Longest allowed first line, in characters. */
+    maxLength: number;
+  };
+  body: {
+    /** Require a blank line between the header and the body. */
+    leadingBlank: boolean;
+    /** Longest allowed body line. Unlimited when omitted. */
+    maxLineLength?: number;
+  };
+  footer: {
+    /** Require a blank line before the footers. */
+    leadingBlank: boolean;
+  };
+}
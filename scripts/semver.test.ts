@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  bumpVersion,
+  compareVersions,
+  formatVersion,
+  parseVersion,
+  resolveChannel,
+} from './semver';
+
+describe('parseVersion', () => {
+  it('parses prerelease and build metadata', () => {
+    expect(parseVersion('1.2.0-beta.3+build.5')).toEqual({
+      major: 1,
+      minor: 2,
+      patch: 0,
+      prerelease: ['beta', 3],
+      build: ['build', '5'],
+    });
+  });
+
+  it('round-trips through formatVersion', () => {
+    for (const version of [
+      '0.0.1',
+      '1.0.0-rc.1',
+      '1.0.0+20260101',
+      '2.3.4-alpha.0.x-y+sha.abc',
+    ])
+      expect(formatVersion(parseVersion(version))).toBe(
+        version,
+      );
+  });
+
+  it('rejects invalid versions with a clear error', () => {
+    expect(() => parseVersion('1.2')).toThrow(
+      'Invalid version "1.2": expected MAJOR.MINOR.PATCH',
+    );
+    expect(() => parseVersion('v1.2.3')).toThrow(TypeError);
+    expect(() => parseVersion('01.2.3')).toThrow(TypeError);
+    expect(() => parseVersion('1.2.3-beta.01')).toThrow(
+      TypeError,
+    );
+  });
+});
+
+describe('compareVersions', () => {
+  it('follows semver precedence', () => {
+    const sorted = [
+      '1.0.0-alpha',
+      '1.0.0-alpha.1',
+      '1.0.0-alpha.beta',
+      '1.0.0-beta',
+      '1.0.0-beta.2',
+      '1.0.0-beta.11',
+      '1.0.0-rc.1',
+      '1.0.0',
+      '1.0.1',
+      '1.1.0',
+      '2.0.0',
+    ];
+    expect(
+      [...sorted].reverse().sort(compareVersions),
+    ).toEqual(sorted);
+  });
+
+  it('ignores build metadata', () => {
+    expect(compareVersions('1.0.0+a', '1.0.0+b')).toBe(0);
+  });
+});
+
+describe('bumpVersion', () => {
+  it('bumps stable versions', () => {
+    expect(bumpVersion('1.2.3', 'patch')).toBe('1.2.4');
+    expect(bumpVersion('1.2.3', 'minor')).toBe('1.3.0');
+    expect(bumpVersion('1.2.3', 'major')).toBe('2.0.0');
+    expect(bumpVersion('1.2.3+build.1', 'patch')).toBe(
+      '1.2.4',
+    );
+  });
+
+  it('graduates prereleases that cover the bump', () => {
+    expect(bumpVersion('1.2.0-rc.2', 'patch')).toBe(
+      '1.2.0',
+    );
+    expect(bumpVersion('1.2.0-rc.2', 'minor')).toBe(
+      '1.2.0',
+    );
+    expect(bumpVersion('1.2.0-rc.2', 'major')).toBe(
+      '2.0.0',
+    );
+    expect(bumpVersion('2.0.0-beta.1', 'major')).toBe(
+      '2.0.0',
+    );
+  });
+
+  it('bumps prereleases on a channel', () => {
+    expect(
+      bumpVersion('1.1.0', 'minor', { channel: 'beta' }),
+    ).toBe('1.2.0-beta.0');
+    expect(
+      bumpVersion('1.2.0-beta.0', 'patch', {
+        channel: 'beta',
+      }),
+    ).toBe('1.2.0-beta.1');
+    expect(
+      bumpVersion('1.2.0-beta.4', 'minor', {
+        channel: 'rc',
+      }),
+    ).toBe('1.2.0-rc.0');
+    expect(
+      bumpVersion('1.2.0-beta.4', 'major', {
+        channel: 'beta',
+      }),
+    ).toBe('2.0.0-beta.0');
+  });
+
+  it('refuses to move to a less stable channel', () => {
+    expect(() =>
+      bumpVersion('1.2.0-rc.1', 'patch', {
+        channel: 'alpha',
+      }),
+    ).toThrow(
+      'Cannot release 1.2.0-alpha.0 on alpha after 1.2.0-rc.1',
+    );
+  });
+
+  it('bumps minor for breaking changes during initial development', () => {
+    expect(
+      bumpVersion('0.4.2', 'major', {
+        initialDevelopment: true,
+      }),
+    ).toBe('0.5.0');
+    expect(
+      bumpVersion('1.4.2', 'major', {
+        initialDevelopment: true,
+      }),
+    ).toBe('2.0.0');
+  });
+
+  it('rejects invalid versions', () => {
+    expect(() => bumpVersion('1.2.x', 'patch')).toThrow(
+      'Invalid version "1.2.x"',
+    );
+  });
+});
+
+describe('resolveChannel', () => {
+  it('reads the channel from the branch', () => {
+    expect(resolveChannel('beta')).toBe('beta');
+    expect(resolveChannel('rc/2.0')).toBe('rc');
+    expect(resolveChannel('main')).toBeUndefined();
+    expect(resolveChannel('alphabet')).toBeUndefined();
+  });
+
+  it('prefers a valid override', () => {
+    expect(resolveChannel('main', 'alpha')).toBe('alpha');
+    expect(() => resolveChannel('main', 'gamma')).toThrow(
+      'Invalid prerelease channel "gamma": expected one of alpha, beta, rc',
+    );
+  });
+});
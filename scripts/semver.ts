@@ -0,0 +1,236 @@
+import type { BumpType } from './commits';
+
+/**
+ * A parsed semantic version. Numeric prerelease identifiers are
+ * numbers so they compare numerically.
+ */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: (string | number)[];
+  build: string[];
+}
+
+export type PrereleaseChannel = 'alpha' | 'beta' | 'rc';
+
+/** Channels from least to most stable, which is also their sort order. */
+export const CHANNELS: readonly PrereleaseChannel[] = [
+  'alpha',
+  'beta',
+  'rc',
+];
+
+export interface BumpOptions {
+  /** Bump to a prerelease on this channel, e.g. `1.3.0-beta.0`. */
+  channel?: PrereleaseChannel;
+  /**
+   * Treat `0.x` as initial development, where breaking changes bump
+   * the minor version instead of releasing `1.0.0`.
+   */
+  initialDevelopment?: boolean;
+}
+
+// From https://semver.org, without the leading `v`.
+const SEMVER =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+/**
+ * Parses a version such as `1.2.0-beta.3+build.5`. Throws a
+ * `TypeError` naming the input when it isn't valid semver.
+ */
+export function parseVersion(input: string): SemVer {
+  const match = SEMVER.exec(input);
+  if (!match)
+    throw new TypeError(
+      `Invalid version "${input}": expected MAJOR.MINOR.PATCH with an optional -prerelease and +build, e.g. 1.2.0-beta.3`,
+    );
+  const [, major, minor, patch, prerelease, build] = match;
+  const numbers = [major, minor, patch].map(Number);
+  if (!numbers.every(Number.isSafeInteger))
+    throw new TypeError(
+      `Invalid version "${input}": numbers must be safe integers`,
+    );
+  return {
+    major: numbers[0],
+    minor: numbers[1],
+    patch: numbers[2],
+    prerelease: prerelease
+      ? prerelease
+          .split('.')
+          .map(id => (/^\d+$/.test(id) ? Number(id) : id))
+      : [],
+    build: build ? build.split('.') : [],
+  };
+}
+
+/**
+ * Formats a parsed version back into a string.
+ */
+export function formatVersion({
+  major,
+  minor,
+  patch,
+  prerelease,
+  build,
+}: SemVer): string {
+  const pre = prerelease.length
+    ? `-${prerelease.join('.')}`
+    : '';
+  const meta = build.length ? `+${build.join('.')}` : '';
+  return `${major}.${minor}.${patch}${pre}${meta}`;
+}
+
+function compareIdentifiers(
+  a: string | number,
+  b: string | number,
+): number {
+  if (typeof a === 'number' && typeof b === 'number')
+    return Math.sign(a - b);
+  // Numeric identifiers sort before alphanumeric ones.
+  if (typeof a === 'number') return -1;
+  if (typeof b === 'number') return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compares by semver precedence: -1, 0 or 1. Build metadata is
+ * ignored, and a prerelease sorts before its release.
+ */
+export function compareVersions(
+  a: string | SemVer,
+  b: string | SemVer,
+): number {
+  const x = typeof a === 'string' ? parseVersion(a) : a;
+  const y = typeof b === 'string' ? parseVersion(b) : b;
+  const core =
+    Math.sign(x.major - y.major) ||
+    Math.sign(x.minor - y.minor) ||
+    Math.sign(x.patch - y.patch);
+  if (core !== 0) return core;
+  if (!x.prerelease.length || !y.prerelease.length)
+    return Math.sign(
+      y.prerelease.length - x.prerelease.length,
+    );
+  const length = Math.max(
+    x.prerelease.length,
+    y.prerelease.length,
+  );
+  for (let i = 0; i < length; i++) {
+    if (x.prerelease[i] === undefined) return -1;
+    if (y.prerelease[i] === undefined) return 1;
+    const result = compareIdentifiers(
+      x.prerelease[i],
+      y.prerelease[i],
+    );
+    if (result !== 0) return result;
+  }
+  return 0;
+}
+
+/**
+ * Whether the release a prerelease leads up to already covers `bump`,
+ * e.g. `2.0.0-rc.1` covers a major bump but `2.1.0-rc.1` does not.
+ */
+function covers(version: SemVer, bump: BumpType): boolean {
+  return (
+    version.prerelease.length > 0 &&
+    (bump === 'patch' ||
+      (version.patch === 0 &&
+        (bump === 'minor' || version.minor === 0)))
+  );
+}
+
+/**
+ * The next stable release of the given level.
+ */
+function release(
+  { major, minor, patch }: SemVer,
+  bump: BumpType,
+): SemVer {
+  const next = {
+    major,
+    minor,
+    patch,
+    prerelease: [],
+    build: [],
+  };
+  if (bump === 'major')
+    return {
+      ...next,
+      minor: 0,
+      patch: 0,
+      major: major + 1,
+    };
+  if (bump === 'minor')
+    return { ...next, patch: 0, minor: minor + 1 };
+  return { ...next, patch: patch + 1 };
+}
+
+/**
+ * Bumps `version` for a release of the given level.
+ *
+ * A stable bump of a prerelease graduates it when the prerelease
+ * already covers the bump (`1.2.0-rc.1` becomes `1.2.0`). With a
+ * `channel`, the prerelease counter increases on the same channel,
+ * restarts at 0 on a more stable one, or starts a new prerelease
+ * (`1.1.0` becomes `1.2.0-beta.0`). Moving to a less stable channel
+ * for the same release throws, since it would not sort higher.
+ */
+export function bumpVersion(
+  version: string,
+  bump: BumpType,
+  { channel, initialDevelopment = false }: BumpOptions = {},
+): string {
+  const current = parseVersion(version);
+  const level =
+    initialDevelopment &&
+    current.major === 0 &&
+    bump === 'major'
+      ? 'minor'
+      : bump;
+  const covered = covers(current, level);
+  const base = covered
+    ? { ...current, prerelease: [], build: [] }
+    : release(current, level);
+  if (!channel) return formatVersion(base);
+
+  const [currentChannel, counter] = current.prerelease;
+  const next: SemVer = {
+    ...base,
+    prerelease: [
+      channel,
+      covered &&
+      currentChannel === channel &&
+      typeof counter === 'number'
+        ? counter + 1
+        : 0,
+    ],
+  };
+  if (compareVersions(next, current) <= 0)
+    throw new RangeError(
+      `Cannot release ${formatVersion(next)} on ${channel} after ${version}, as it would not sort higher`,
+    );
+  return formatVersion(next);
+}
+
+/**
+ * Picks the prerelease channel: `override` (e.g. from
+ * `PRERELEASE_CHANNEL`) wins, otherwise a branch named `alpha`, `beta`
+ * or `rc`, or prefixed with one and a slash, such as `beta/payments`.
+ * Returns `undefined` for stable releases.
+ */
+export function resolveChannel(
+  branch: string | undefined,
+  override?: string,
+): PrereleaseChannel | undefined {
+  if (override) {
+    if (!CHANNELS.includes(override as PrereleaseChannel))
+      throw new TypeError(
+        `Invalid prerelease channel "${override}": expected one of ${CHANNELS.join(', ')}`,
+      );
+    return override as PrereleaseChannel;
+  }
+  const prefix = branch?.split('/')[0];
+  return CHANNELS.find(channel => channel === prefix);
+}
@@ -0,0 +1,131 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from 'bun:test';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { bumpVersion } from './semver';
+import {
+  findWorkspacePackages,
+  type PackageJson,
+  planReleases,
+  updateInternalDependencies,
+  updateRange,
+  writePackageJson,
+} from './workspaces';
+
+let dir: string;
+
+const writePackage = (
+  relative: string,
+  manifest: PackageJson,
+): void => {
+  fs.mkdirSync(path.join(dir, relative), {
+    recursive: true,
+  });
+  writePackageJson(
+    path.join(dir, relative, 'package.json'),
+    manifest,
+  );
+};
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(
+    path.join(os.tmpdir(), 'workspace-'),
+  );
+  writePackage('.', {
+    name: 'root',
+    private: true,
+    workspaces: ['packages/*', '!packages/ignored'],
+  });
+  writePackage('packages/core', {
+    name: '@acme/core',
+    version: '1.2.0',
+  });
+  writePackage('packages/cli', {
+    name: '@acme/cli',
+    version: '0.3.0',
+    dependencies: { '@acme/core': '^1.2.0' },
+  });
+  writePackage('packages/app', {
+    name: '@acme/app',
+    version: '2.0.0',
+    dependencies: { '@acme/cli': 'workspace:*' },
+  });
+  writePackage('packages/ignored', {
+    name: 'ignored',
+    version: '1.0.0',
+  });
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('findWorkspacePackages', () => {
+  it('reads the packages matched by the workspace globs', () => {
+    expect(
+      findWorkspacePackages(dir).map(p => [p.name, p.dir]),
+    ).toEqual([
+      ['@acme/app', 'packages/app'],
+      ['@acme/cli', 'packages/cli'],
+      ['@acme/core', 'packages/core'],
+    ]);
+  });
+
+  it('returns nothing for a single package', () => {
+    writePackage('.', { name: 'single', version: '1.0.0' });
+    expect(findWorkspacePackages(dir)).toEqual([]);
+  });
+});
+
+describe('updateRange', () => {
+  it('keeps the operator and protocol', () => {
+    expect(updateRange('^1.2.0', '1.3.0')).toBe('^1.3.0');
+    expect(updateRange('~1.2.0', '1.3.0')).toBe('~1.3.0');
+    expect(updateRange('1.2.0', '1.3.0')).toBe('1.3.0');
+    expect(updateRange('workspace:^1.2.0', '2.0.0')).toBe(
+      'workspace:^2.0.0',
+    );
+  });
+
+  it('leaves ranges that follow the workspace alone', () => {
+    expect(updateRange('workspace:*', '2.0.0')).toBe(
+      'workspace:*',
+    );
+    expect(updateRange('>=1 <3', '2.0.0')).toBe('>=1 <3');
+  });
+});
+
+describe('planReleases', () => {
+  it('releases changed packages and their dependents', () => {
+    const packages = findWorkspacePackages(dir);
+    const planned = planReleases(
+      packages,
+      new Map([
+        ['@acme/core', { bump: 'minor', commits: [] }],
+      ]),
+      (pkg, bump) => bumpVersion(pkg.version, bump),
+    );
+    expect(
+      planned.map(r => [r.pkg.name, r.bump, r.version]),
+    ).toEqual([
+      ['@acme/cli', 'patch', '0.3.1'],
+      ['@acme/core', 'minor', '1.3.0'],
+    ]);
+
+    const changed = updateInternalDependencies(
+      packages,
+      new Map(planned.map(r => [r.pkg.name, r.version])),
+    );
+    expect([...changed]).toEqual(['@acme/cli']);
+    const cli = packages.find(p => p.name === '@acme/cli');
+    expect(cli?.manifest.dependencies).toEqual({
+      '@acme/core': '^1.3.0',
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import * as glob from 'glob';
+import type { BumpType, ParsedCommit } from './commits';
+
+const DEPENDENCY_FIELDS = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+] as const;
+
+export interface PackageJson {
+  name?: string;
+  version?: string;
+  private?: boolean;
+  repository?: string | { url?: string };
+  workspaces?: string[] | { packages?: string[] };
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+/**
+ * A package of a Bun workspace.
+ */
+export interface WorkspacePackage {
+  name: string;
+  version: string;
+  /** Directory relative to the workspace root, using `/`. */
+  dir: string;
+  manifestPath: string;
+  manifest: PackageJson;
+}
+
+export function readPackageJson(
+  filePath: string,
+): PackageJson {
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+export function writePackageJson(
+  filePath: string,
+  manifest: PackageJson,
+): void {
+  fs.writeFileSync(
+    filePath,
+    `${JSON.stringify(manifest, null, 2)}\n`,
+  );
+}
+
+/**
+ * Finds the packages matched by the `workspaces` globs of the root
+ * package.json, skipping those without a name and version. Returns an
+ * empty list for a single-package repository.
+ */
+export function findWorkspacePackages(
+  rootDir: string,
+): WorkspacePackage[] {
+  const { workspaces } = readPackageJson(
+    path.join(rootDir, 'package.json'),
+  );
+  const patterns = Array.isArray(workspaces)
+    ? workspaces
+    : (workspaces?.packages ?? []);
+  const include = patterns.filter(p => !p.startsWith('!'));
+  if (include.length === 0) return [];
+
+  const manifests = glob.sync(
+    include.map(
+      p => `${p.replace(/\/$/, '')}/package.json`,
+    ),
+    {
+      cwd: rootDir,
+      posix: true,
+      ignore: [
+        '**/node_modules/**',
+        ...patterns
+          .filter(p => p.startsWith('!'))
+          .map(
+            p =>
+              `${p.slice(1).replace(/\/$/, '')}/package.json`,
+          ),
+      ],
+    },
+  );
+
+  return manifests.sort().flatMap(relative => {
+    const manifestPath = path.join(rootDir, relative);
+    const manifest = readPackageJson(manifestPath);
+    if (!manifest.name || !manifest.version) return [];
+    return [
+      {
+        name: manifest.name,
+        version: manifest.version,
+        dir: path.posix.dirname(relative),
+        manifestPath,
+        manifest,
+      },
+    ];
+  });
+}
+
+/**
+ * Points a dependency range at `version`, keeping its operator:
+ * `^1.2.0` becomes `^1.3.0` and `workspace:~1.2.0` becomes
+ * `workspace:~1.3.0`. Ranges that follow the workspace automatically,
+ * such as `workspace:*`, and complex ranges are returned unchanged.
+ */
+export function updateRange(
+  range: string,
+  version: string,
+): string {
+  const match = range.match(
+    /^(workspace:)?(\^|~|>=|=)?v?\d+\.\d+\.\d+\S*$/,
+  );
+  if (!match) return range;
+  const [, protocol = '', operator = ''] = match;
+  return `${protocol}${operator}${version}`;
+}
+
+/**
+ * Updates every dependency on a package in `versions` to its new
+ * version. Returns the names of the packages whose manifest changed.
+ */
+export function updateInternalDependencies(
+  packages: WorkspacePackage[],
+  versions: ReadonlyMap<string, string>,
+): Set<string> {
+  const changed = new Set<string>();
+  for (const pkg of packages)
+    for (const field of DEPENDENCY_FIELDS) {
+      const deps = pkg.manifest[field];
+      for (const [name, range] of Object.entries(
+        deps ?? {},
+      )) {
+        const version = versions.get(name);
+        if (!deps || version === undefined) continue;
+        const next = updateRange(range, version);
+        if (next === range) continue;
+        deps[name] = next;
+        changed.add(pkg.name);
+      }
+    }
+  return changed;
+}
+
+/**
+ * A package that will be released, with the reason why.
+ */
+export interface PlannedRelease {
+  pkg: WorkspacePackage;
+  bump: BumpType;
+  version: string;
+  /** Commits touching the package. Empty for dependency updates. */
+  commits: ParsedCommit[];
+}
+
+/**
+ * Plans the releases for packages with commits, plus a patch release
+ * of every package whose range on a released package must change,
+ * repeated until no more packages are affected.
+ */
+export function planReleases(
+  packages: WorkspacePackage[],
+  changes: ReadonlyMap<
+    string,
+    { bump: BumpType; commits: ParsedCommit[] }
+  >,
+  nextVersion: (
+    pkg: WorkspacePackage,
+    bump: BumpType,
+  ) => string,
+): PlannedRelease[] {
+  const planned = new Map<string, PlannedRelease>();
+  const queue: PlannedRelease[] = [];
+  const plan = (
+    pkg: WorkspacePackage,
+    bump: BumpType,
+    commits: ParsedCommit[],
+  ) => {
+    const release = {
+      pkg,
+      bump,
+      version: nextVersion(pkg, bump),
+      commits,
+    };
+    planned.set(pkg.name, release);
+    queue.push(release);
+  };
+  for (const pkg of packages) {
+    const change = changes.get(pkg.name);
+    if (change) plan(pkg, change.bump, change.commits);
+  }
+
+  while (queue.length > 0) {
+    const { pkg: released, version } =
+      queue.shift() as PlannedRelease;
+    for (const pkg of packages) {
+      const affected = DEPENDENCY_FIELDS.some(field => {
+        const range = pkg.manifest[field]?.[released.name];
+        return (
+          range !== undefined &&
+          updateRange(range, version) !== range
+        );
+      });
+      if (affected && !planned.has(pkg.name))
+        plan(pkg, 'patch', []);
+    }
+  }
+
+  return packages.flatMap(
+    pkg => planned.get(pkg.name) ?? [],
+  );
+}
@@ -0,0 +1,10 @@
+/**
+ * Returns the reason an aborted signal was cancelled with, falling
+ * back to a standard `AbortError` for runtimes that don't set one.
+ */
+export const abortReason = (signal: AbortSignal): unknown =>
+  signal.reason ??
+  new DOMException(
+    'The operation was aborted.',
+    'AbortError',
+  );
@@ -0,0 +1,165 @@
+import {
+  describe,
+  expect,
+  expectTypeOf,
+  it,
+} from 'bun:test';
+import {
+  camelCase,
+  camelizeKeys,
+  constantCase,
+  kebabCase,
+  pascalCase,
+  snakeCase,
+  snakeizeKeys,
+  words,
+} from './case.js';
+
+describe('words', () => {
+  it('splits on delimiters and case boundaries', () => {
+    expect(words('user_id')).toEqual(['user', 'id']);
+    expect(words('--foo  bar.baz')).toEqual([
+      'foo',
+      'bar',
+      'baz',
+    ]);
+    expect(words('userId')).toEqual(['user', 'Id']);
+  });
+
+  it('keeps acronyms together', () => {
+    expect(words('XMLHttpRequest')).toEqual([
+      'XML',
+      'Http',
+      'Request',
+    ]);
+    expect(words('parseJSON')).toEqual(['parse', 'JSON']);
+    expect(words('userID2FA')).toEqual([
+      'user',
+      'ID2',
+      'FA',
+    ]);
+  });
+
+  it('handles Unicode letters', () => {
+    expect(words('straßeÜberführung')).toEqual([
+      'straße',
+      'Überführung',
+    ]);
+    expect(words('ÉcoleNormale')).toEqual([
+      'École',
+      'Normale',
+    ]);
+  });
+});
+
+describe('case helpers', () => {
+  it('converts between cases', () => {
+    expect(camelCase('user_id')).toBe('userId');
+    expect(camelCase('XMLHttpRequest')).toBe(
+      'xmlHttpRequest',
+    );
+    expect(pascalCase('api-key')).toBe('ApiKey');
+    expect(snakeCase('XMLHttpRequest')).toBe(
+      'xml_http_request',
+    );
+    expect(kebabCase('userId')).toBe('user-id');
+    expect(constantCase('maxRetryCount')).toBe(
+      'MAX_RETRY_COUNT',
+    );
+    expect(camelCase('École normale')).toBe('écoleNormale');
+    expect(snakeCase('')).toBe('');
+  });
+
+  it('computes literal result types', () => {
+    expectTypeOf(
+      camelCase('user_id'),
+    ).toEqualTypeOf<'userId'>();
+    expectTypeOf(
+      snakeCase('XMLHttpRequest'),
+    ).toEqualTypeOf<'xml_http_request'>();
+    expectTypeOf(
+      pascalCase('api-key'),
+    ).toEqualTypeOf<'ApiKey'>();
+    expectTypeOf(
+      kebabCase('userId'),
+    ).toEqualTypeOf<'user-id'>();
+    expectTypeOf(
+      constantCase('maxRetryCount'),
+    ).toEqualTypeOf<'MAX_RETRY_COUNT'>();
+    expectTypeOf(
+      camelCase('' as string),
+    ).toEqualTypeOf<string>();
+  });
+});
+
+describe('camelizeKeys and snakeizeKeys', () => {
+  const row = {
+    user_id: 1,
+    created_at: new Date(0),
+    home_address: { street_name: 'Main', zip_code: '1000' },
+    order_items: [{ item_id: 7, unit_price: 2 }],
+    raw_payload: { keep_me: true },
+  };
+
+  it('camelizes nested keys', () => {
+    const result = camelizeKeys(row);
+    expect(result).toEqual({
+      userId: 1,
+      createdAt: new Date(0),
+      homeAddress: { streetName: 'Main', zipCode: '1000' },
+      orderItems: [{ itemId: 7, unitPrice: 2 }],
+      rawPayload: { keepMe: true },
+    });
+    expect(result.createdAt).toBe(row.created_at);
+    expectTypeOf(
+      result.orderItems[0].unitPrice,
+    ).toBeNumber();
+    expectTypeOf(result.createdAt).toEqualTypeOf<Date>();
+  });
+
+  it('leaves excluded paths untouched', () => {
+    const result = camelizeKeys(row, {
+      exclude: ['raw_payload', 'order_items.unit_price'],
+    });
+    expect(result.rawPayload).toBe(row.raw_payload);
+    expect(result.orderItems).toEqual([
+      { itemId: 7, unitPrice: 2 },
+    ]);
+    expectTypeOf(result.rawPayload).toEqualTypeOf<{
+      keep_me: boolean;
+    }>();
+  });
+
+  it('snakeizes nested keys', () => {
+    const api = {
+      userId: 1,
+      billingInfo: { cardLast4: '4242' },
+      tags: ['someValue'],
+    };
+    const result = snakeizeKeys(api);
+    expect(result).toEqual({
+      user_id: 1,
+      billing_info: { card_last4: '4242' },
+      tags: ['someValue'],
+    });
+    expectTypeOf(result).toEqualTypeOf<{
+      user_id: number;
+      billing_info: { card_last4: string };
+      tags: string[];
+    }>();
+  });
+
+  it('round-trips between the two', () => {
+    expect(snakeizeKeys(camelizeKeys(row))).toEqual(row);
+  });
+
+  it('does not pollute prototypes', () => {
+    const result = camelizeKeys(
+      JSON.parse('{"__proto__": {"polluted": true}}'),
+    ) as Record<string, unknown>;
+    expect(({} as Record<string, unknown>).polluted).toBe(
+      undefined,
+    );
+    expect(Object.keys(result)).toEqual(['proto']);
+  });
+});
@@ -0,0 +1,322 @@
+type Delimiter = '_' | '-' | ' ' | '.';
+
+type IsUpper<C extends string> =
+  C extends Lowercase<C> ? false : true;
+
+type IsLower<C extends string> =
+  C extends Uppercase<C> ? false : true;
+
+type Push<
+  W extends string[],
+  Word extends string,
+> = Word extends '' ? W : [...W, Word];
+
+/**
+ * Whether a new word starts at `C`: after a lowercase letter or digit
+ * (`userId`), or at the last capital of an acronym (`XMLHttp`).
+ */
+type StartsWord<
+  Prev extends string,
+  C extends string,
+  Next extends string,
+> =
+  IsUpper<C> extends true
+    ? IsUpper<Prev> extends false
+      ? true
+      : IsLower<Next>
+    : false;
+
+type FirstChar<S extends string> =
+  S extends `${infer C}${string}` ? C : '';
+
+/**
+ * Splits `S` into words the same way `words` does at runtime. Only
+ * `_`, `-`, `.` and spaces are treated as delimiters at the type level.
+ */
+export type Words<
+  S extends string,
+  Word extends string = '',
+  Prev extends string = '',
+  W extends string[] = [],
+> = S extends `${infer C}${infer Rest}`
+  ? C extends Delimiter
+    ? Words<Rest, '', '', Push<W, Word>>
+    : Word extends ''
+      ? Words<Rest, C, C, W>
+      : StartsWord<Prev, C, FirstChar<Rest>> extends true
+        ? Words<Rest, C, C, Push<W, Word>>
+        : Words<Rest, `${Word}${C}`, C, W>
+  : Push<W, Word>;
+
+type JoinWords<
+  W extends string[],
+  Separator extends string,
+> = W extends [
+  infer Head extends string,
+  ...infer Rest extends string[],
+]
+  ? Rest extends []
+    ? Head
+    : `${Head}${Separator}${JoinWords<Rest, Separator>}`
+  : '';
+
+type CapitalizeAll<W extends string[]> = {
+  [I in keyof W]: Capitalize<Lowercase<W[I]>>;
+};
+
+type LowercaseAll<W extends string[]> = {
+  [I in keyof W]: Lowercase<W[I]>;
+};
+
+type UppercaseAll<W extends string[]> = {
+  [I in keyof W]: Uppercase<W[I]>;
+};
+
+export type PascalCase<S extends string> = string extends S
+  ? string
+  : JoinWords<CapitalizeAll<Words<S>>, ''>;
+
+export type CamelCase<S extends string> = string extends S
+  ? string
+  : Words<S> extends [
+        infer Head extends string,
+        ...infer Rest extends string[],
+      ]
+    ? `${Lowercase<Head>}${JoinWords<CapitalizeAll<Rest>, ''>}`
+    : '';
+
+export type SnakeCase<S extends string> = string extends S
+  ? string
+  : JoinWords<LowercaseAll<Words<S>>, '_'>;
+
+export type KebabCase<S extends string> = string extends S
+  ? string
+  : JoinWords<LowercaseAll<Words<S>>, '-'>;
+
+export type ConstantCase<S extends string> =
+  string extends S
+    ? string
+    : JoinWords<UppercaseAll<Words<S>>, '_'>;
+
+type KeyCase = 'camel' | 'snake';
+
+type ToCase<K extends string, C extends KeyCase> = {
+  camel: CamelCase<K>;
+  snake: SnakeCase<K>;
+}[C];
+
+type Leaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | RegExp
+  | Map<unknown, unknown>
+  | Set<unknown>
+  | ((...args: never[]) => unknown);
+
+type JoinPath<
+  P extends string,
+  K extends string,
+> = P extends '' ? K : `${P}.${K}`;
+
+type ConvertKeys<
+  T,
+  C extends KeyCase,
+  X extends string,
+  P extends string,
+> = T extends Leaf
+  ? T
+  : T extends readonly unknown[]
+    ? { [I in keyof T]: ConvertKeys<T[I], C, X, P> }
+    : {
+        [K in keyof T as K extends string
+          ? ToCase<K, C>
+          : K]: K extends string
+          ? JoinPath<P, K> extends X
+            ? T[K]
+            : ConvertKeys<T[K], C, X, JoinPath<P, K>>
+          : T[K];
+      };
+
+/**
+ * `T` with every nested key camel-cased, except below paths in `X`.
+ */
+export type CamelizeKeys<
+  T,
+  X extends string = never,
+> = ConvertKeys<T, 'camel', X, ''>;
+
+/**
+ * `T` with every nested key snake-cased, except below paths in `X`.
+ */
+export type SnakeizeKeys<
+  T,
+  X extends string = never,
+> = ConvertKeys<T, 'snake', X, ''>;
+
+export interface ConvertKeysOptions<X extends string> {
+  /**
+   * Dot-separated paths, in the original key names, whose values are
+   * copied as is. The key itself is still converted. Array indices are
+   * not part of paths, so `items.raw` matches `raw` in every item.
+   */
+  exclude?: readonly X[];
+}
+
+const isUpper = (c: string | undefined): boolean =>
+  c !== undefined && c !== c.toLowerCase();
+
+const isLower = (c: string | undefined): boolean =>
+  c !== undefined && c !== c.toUpperCase();
+
+const isWordChar = (c: string): boolean =>
+  /[\p{L}\p{N}]/u.test(c);
+
+/**
+ * Splits a string into words on delimiters, lowercase-to-uppercase
+ * boundaries and the end of acronyms, so `XMLHttpRequest` gives
+ * `XML`, `Http` and `Request`.
+ */
+export const words = (input: string): string[] => {
+  const result: string[] = [];
+  const chars = [...input];
+  let word = '';
+  chars.forEach((c, i) => {
+    if (!isWordChar(c)) {
+      if (word) result.push(word);
+      word = '';
+      return;
+    }
+    const startsWord =
+      isUpper(c) &&
+      (!isUpper(chars[i - 1]) || isLower(chars[i + 1]));
+    if (word && startsWord) {
+      result.push(word);
+      word = '';
+    }
+    word += c;
+  });
+  if (word) result.push(word);
+  return result;
+};
+
+const capitalize = (word: string): string => {
+  const [first = '', ...rest] = word;
+  return first.toUpperCase() + rest.join('').toLowerCase();
+};
+
+/** `fooBar` */
+export const camelCase = <S extends string>(
+  input: S,
+): CamelCase<S> =>
+  words(input)
+    .map((word, i) =>
+      i === 0 ? word.toLowerCase() : capitalize(word),
+    )
+    .join('') as CamelCase<S>;
+
+/** `FooBar` */
+export const pascalCase = <S extends string>(
+  input: S,
+): PascalCase<S> =>
+  words(input).map(capitalize).join('') as PascalCase<S>;
+
+/** `foo_bar` */
+export const snakeCase = <S extends string>(
+  input: S,
+): SnakeCase<S> =>
+  words(input)
+    .map(word => word.toLowerCase())
+    .join('_') as SnakeCase<S>;
+
+/** `foo-bar` */
+export const kebabCase = <S extends string>(
+  input: S,
+): KebabCase<S> =>
+  words(input)
+    .map(word => word.toLowerCase())
+    .join('-') as KebabCase<S>;
+
+/** `FOO_BAR` */
+export const constantCase = <S extends string>(
+  input: S,
+): ConstantCase<S> =>
+  words(input)
+    .map(word => word.toUpperCase())
+    .join('_') as ConstantCase<S>;
+
+const isPlainObject = (
+  value: unknown,
+): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null)
+    return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+};
+
+const convertKeys = (
+  value: unknown,
+  convert: (key: string) => string,
+  exclude: ReadonlySet<string>,
+  path: string,
+): unknown => {
+  if (Array.isArray(value))
+    return value.map(item =>
+      convertKeys(item, convert, exclude, path),
+    );
+  if (!isPlainObject(value)) return value;
+  // `Object.fromEntries` keeps keys such as `__proto__` as own
+  // properties.
+  return Object.fromEntries(
+    Object.entries(value).map(([key, child]) => {
+      const childPath = path ? `${path}.${key}` : key;
+      return [
+        convert(key),
+        exclude.has(childPath)
+          ? child
+          : convertKeys(child, convert, exclude, childPath),
+      ];
+    }),
+  );
+};
+
+/**
+ * Deeply camel-cases the keys of plain objects, including those inside
+ * arrays. Other objects, such as dates, are kept as they are.
+ */
+export const camelizeKeys = <
+  T,
+  const X extends string = never,
+>(
+  value: T,
+  { exclude = [] }: ConvertKeysOptions<X> = {},
+): CamelizeKeys<T, X> =>
+  convertKeys(
+    value,
+    camelCase,
+    new Set(exclude),
+    '',
+  ) as CamelizeKeys<T, X>;
+
+/**
+ * Deeply snake-cases the keys of plain objects, including those inside
+ * arrays. Other objects, such as dates, are kept as they are.
+ */
+export const snakeizeKeys = <
+  T,
+  const X extends string = never,
+>(
+  value: T,
+  { exclude = [] }: ConvertKeysOptions<X> = {},
+): SnakeizeKeys<T, X> =>
+  convertKeys(
+    value,
+    snakeCase,
+    new Set(exclude),
+    '',
+  ) as SnakeizeKeys<T, X>;
@@ -0,0 +1,174 @@
+import { describe, expect, it, mock } from 'bun:test';
+import {
+  CircuitOpenError,
+  type CircuitStateChange,
+  createCircuitBreaker,
+} from './circuit-breaker.js';
+import { createFakeClock, sleep } from './clock.js';
+import { RetryError, retry } from './retry.js';
+
+const boom = () => Promise.reject(new Error('down'));
+
+describe('createCircuitBreaker', () => {
+  it('passes calls through while closed', async () => {
+    const breaker = createCircuitBreaker(
+      async (a: number, b: number) => a + b,
+    );
+    expect(await breaker(1, 2)).toBe(3);
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('opens after consecutive failures and fails fast', async () => {
+    const fn = mock(boom);
+    const breaker = createCircuitBreaker(fn, {
+      failureThreshold: 2,
+    });
+    await expect(breaker()).rejects.toThrow('down');
+    await expect(breaker()).rejects.toThrow('down');
+    expect(breaker.state).toBe('open');
+    await expect(breaker()).rejects.toBeInstanceOf(
+      CircuitOpenError,
+    );
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(breaker.snapshot().totalRejected).toBe(1);
+  });
+
+  it('opens on the failure rate over the window', async () => {
+    let n = 0;
+    const breaker = createCircuitBreaker(
+      () => (n++ % 2 ? boom() : Promise.resolve(n)),
+      {
+        failureThreshold: 100,
+        failureRateThreshold: 0.5,
+        windowSize: 4,
+      },
+    );
+    for (let i = 0; i < 3; i++)
+      await breaker().catch(() => {});
+    expect(breaker.state).toBe('closed');
+    await breaker().catch(() => {});
+    expect(breaker.state).toBe('open');
+  });
+
+  it('ignores errors rejected by isFailure', async () => {
+    const breaker = createCircuitBreaker(boom, {
+      failureThreshold: 1,
+      isFailure: () => false,
+    });
+    await breaker().catch(() => {});
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('half-opens after the cooldown and closes on success', async () => {
+    let healthy = false;
+    const clock = createFakeClock();
+    const changes: CircuitStateChange[] = [];
+    const breaker = createCircuitBreaker(
+      () => (healthy ? Promise.resolve('ok') : boom()),
+      {
+        failureThreshold: 1,
+        cooldownMs: 20,
+        onStateChange: c => changes.push(c),
+        clock,
+      },
+    );
+    await breaker().catch(() => {});
+    await clock.tick(19);
+    expect(breaker.snapshot()).toMatchObject({
+      state: 'open',
+      nextAttemptAt: 20,
+    });
+    await clock.tick(1);
+    expect(breaker.state).toBe('half-open');
+    healthy = true;
+    expect(await breaker()).toBe('ok');
+    expect(changes.map(c => c.to)).toEqual([
+      'open',
+      'half-open',
+      'closed',
+    ]);
+  });
+
+  it('limits concurrent half-open trial calls', async () => {
+    let fail = true;
+    const breaker = createCircuitBreaker(
+      async () => {
+        if (fail) throw new Error('down');
+        await sleep(10);
+        return 'ok';
+      },
+      { failureThreshold: 1, cooldownMs: 10 },
+    );
+    await breaker().catch(() => {});
+    await sleep(20);
+    fail = false;
+    const trial = breaker();
+    await expect(breaker()).rejects.toBeInstanceOf(
+      CircuitOpenError,
+    );
+    expect(await trial).toBe('ok');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('reopens when a trial call fails', async () => {
+    const clock = createFakeClock();
+    const breaker = createCircuitBreaker(boom, {
+      failureThreshold: 1,
+      cooldownMs: 10,
+      clock,
+    });
+    await breaker().catch(() => {});
+    await clock.tick(10);
+    await breaker().catch(() => {});
+    expect(breaker.state).toBe('open');
+  });
+
+  it('supports manual open, reset and unsubscribe', () => {
+    const listener = mock(() => {});
+    const breaker = createCircuitBreaker(boom);
+    const off = breaker.onStateChange(listener);
+    breaker.open();
+    expect(breaker.snapshot()).toMatchObject({
+      state: 'open',
+      nextAttemptAt: expect.any(Number),
+    });
+    off();
+    breaker.reset();
+    expect(breaker.state).toBe('closed');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createCircuitBreaker with retry', () => {
+  it('can be the function retry calls', async () => {
+    const fn = mock(boom);
+    const breaker = createCircuitBreaker(fn, {
+      failureThreshold: 2,
+    });
+    const error = await retry(breaker, {
+      retries: 5,
+      delayMs: 0,
+      shouldRetry: e => !(e instanceof CircuitOpenError),
+    }).catch(e => e);
+    expect(error).toBeInstanceOf(RetryError);
+    expect(error.lastError).toBeInstanceOf(
+      CircuitOpenError,
+    );
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('can wrap a retry call', async () => {
+    const fn = mock(boom);
+    const breaker = createCircuitBreaker(
+      () => retry(fn, 2, 0),
+      { failureThreshold: 1 },
+    );
+    await expect(breaker()).rejects.toBeInstanceOf(
+      RetryError,
+    );
+    await expect(breaker()).rejects.toBeInstanceOf(
+      CircuitOpenError,
+    );
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+});
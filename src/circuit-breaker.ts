@@ -0,0 +1,274 @@
+import { type Clock, systemClock } from './clock.js';
+import {
+  type Duration,
+  toMilliseconds,
+} from './duration.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. Defaults to 5. */
+  failureThreshold?: number;
+  /**
+   * Failure rate (0-1) over the last `windowSize` calls that opens the
+   * circuit. Disabled unless set.
+   */
+  failureRateThreshold?: number;
+  /** Number of recent calls used for the failure rate. Defaults to 20. */
+  windowSize?: number;
+  /** Calls required in the window before the rate applies. Defaults to `windowSize`. */
+  minimumCalls?: number;
+  /** Time the circuit stays open before trying again. Defaults to 30s. */
+  cooldownMs?: Duration;
+  /**
+   * Trial calls allowed while half-open. All of them must succeed to
+   * close the circuit. Defaults to 1.
+   */
+  halfOpenMaxCalls?: number;
+  /** Return `false` for errors that should not count as failures. */
+  isFailure?: (error: unknown) => boolean;
+  /** Called on every state transition. */
+  onStateChange?: (change: CircuitStateChange) => void;
+  /** Time source for the cooldown. Defaults to `systemClock`. */
+  clock?: Clock;
+}
+
+export interface CircuitStateChange {
+  from: CircuitState;
+  to: CircuitState;
+  /** Epoch milliseconds of the transition. */
+  at: number;
+}
+
+/**
+ * Point-in-time view of a breaker, suitable for health endpoints.
+ */
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** Failure rate over the current window, 0 when it is empty. */
+  failureRate: number;
+  windowCalls: number;
+  halfOpenCalls: number;
+  /** Epoch milliseconds when the circuit last opened. */
+  openedAt?: number;
+  /** Epoch milliseconds when an open circuit will allow a trial call. */
+  nextAttemptAt?: number;
+  totalCalls: number;
+  totalFailures: number;
+  totalRejected: number;
+}
+
+/**
+ * Thrown without calling the wrapped function while the circuit is open
+ * or all half-open trial slots are taken.
+ */
+export class CircuitOpenError extends Error {
+  override readonly name = 'CircuitOpenError';
+
+  constructor(readonly retryAfterMs: number) {
+    super(`Circuit is open, retry after ${retryAfterMs}ms`);
+  }
+}
+
+/**
+ * A function guarded by a circuit breaker.
+ */
+export interface CircuitBreaker<A extends unknown[], R> {
+  (...args: A): Promise<R>;
+  readonly state: CircuitState;
+  snapshot(): CircuitSnapshot;
+  /** Subscribes to state transitions. Returns an unsubscribe function. */
+  onStateChange(
+    listener: (change: CircuitStateChange) => void,
+  ): () => void;
+  /** Forces the circuit open, starting a new cooldown. */
+  open(): void;
+  /** Forces the circuit closed and clears failure history. */
+  reset(): void;
+}
+
+/**
+ * Wraps an async function in a circuit breaker with closed, open and
+ * half-open states.
+ *
+ * Compose with `retry` either way: pass the breaker as the function
+ * `retry` calls (stop early with
+ * `shouldRetry: e => !(e instanceof CircuitOpenError)`), or wrap a
+ * `retry` call so one exhausted retry counts as one failure.
+ */
+export const createCircuitBreaker = <
+  A extends unknown[],
+  R,
+>(
+  fn: (...args: A) => Promise<R>,
+  {
+    failureThreshold = 5,
+    failureRateThreshold,
+    windowSize = 20,
+    minimumCalls = windowSize,
+    cooldownMs: cooldown = 30_000,
+    halfOpenMaxCalls = 1,
+    isFailure = () => true,
+    onStateChange,
+    clock = systemClock,
+  }: CircuitBreakerOptions = {},
+): CircuitBreaker<A, R> => {
+  const cooldownMs = toMilliseconds(cooldown);
+  const listeners = new Set<
+    (change: CircuitStateChange) => void
+  >();
+  if (onStateChange) listeners.add(onStateChange);
+
+  let state: CircuitState = 'closed';
+  let consecutiveFailures = 0;
+  let outcomes: boolean[] = [];
+  let openedAt: number | undefined;
+  let halfOpenCalls = 0;
+  let halfOpenSuccesses = 0;
+  let totalCalls = 0;
+  let totalFailures = 0;
+  let totalRejected = 0;
+
+  const transition = (to: CircuitState) => {
+    if (state === to) return;
+    const change = { from: state, to, at: clock.now() };
+    state = to;
+    halfOpenCalls = 0;
+    halfOpenSuccesses = 0;
+    if (to === 'open') openedAt = change.at;
+    if (to === 'closed') {
+      openedAt = undefined;
+      consecutiveFailures = 0;
+      outcomes = [];
+    }
+    for (const listener of listeners) listener(change);
+  };
+
+  const refresh = () => {
+    if (
+      state === 'open' &&
+      clock.now() >= (openedAt ?? 0) + cooldownMs
+    )
+      transition('half-open');
+  };
+
+  const record = (failed: boolean) => {
+    outcomes.push(failed);
+    if (outcomes.length > windowSize) outcomes.shift();
+    consecutiveFailures = failed
+      ? consecutiveFailures + 1
+      : 0;
+  };
+
+  const failureRate = () =>
+    outcomes.length === 0
+      ? 0
+      : outcomes.filter(Boolean).length / outcomes.length;
+
+  const shouldTrip = () =>
+    consecutiveFailures >= failureThreshold ||
+    (failureRateThreshold !== undefined &&
+      outcomes.length >= minimumCalls &&
+      failureRate() >= failureRateThreshold);
+
+  const onSuccess = (trial: boolean) => {
+    record(false);
+    if (trial && state === 'half-open') {
+      halfOpenSuccesses++;
+      if (halfOpenSuccesses >= halfOpenMaxCalls)
+        transition('closed');
+    }
+  };
+
+  const onFailure = (trial: boolean) => {
+    totalFailures++;
+    record(true);
+    if ((trial && state === 'half-open') || shouldTrip())
+      transition('open');
+  };
+
+  const reject = () => {
+    totalRejected++;
+    const retryAfterMs =
+      state === 'open'
+        ? Math.max(
+            0,
+            (openedAt ?? 0) + cooldownMs - clock.now(),
+          )
+        : 0;
+    return Promise.reject(
+      new CircuitOpenError(retryAfterMs),
+    );
+  };
+
+  const call = async (...args: A): Promise<R> => {
+    refresh();
+    if (
+      state === 'open' ||
+      (state === 'half-open' &&
+        halfOpenCalls >= halfOpenMaxCalls)
+    )
+      return reject();
+
+    const trial = state === 'half-open';
+    if (trial) halfOpenCalls++;
+    totalCalls++;
+    try {
+      const result = await fn(...args);
+      onSuccess(trial);
+      return result;
+    } catch (error) {
+      if (isFailure(error)) onFailure(trial);
+      else onSuccess(trial);
+      throw error;
+    }
+  };
+
+  return Object.defineProperty(
+    Object.assign(call, {
+      snapshot: (): CircuitSnapshot => {
+        refresh();
+        return {
+          state,
+          consecutiveFailures,
+          failureRate: failureRate(),
+          windowCalls: outcomes.length,
+          halfOpenCalls,
+          openedAt,
+          nextAttemptAt:
+            state === 'open'
+              ? (openedAt ?? 0) + cooldownMs
+              : undefined,
+          totalCalls,
+          totalFailures,
+          totalRejected,
+        };
+      },
+      onStateChange: (
+        listener: (change: CircuitStateChange) => void,
+      ) => {
+        listeners.add(listener);
+        return () => {
+          listeners.delete(listener);
+        };
+      },
+      open: () => {
+        if (state === 'open') openedAt = clock.now();
+        else transition('open');
+      },
+      reset: () => {
+        transition('closed');
+        consecutiveFailures = 0;
+        outcomes = [];
+      },
+    }),
+    'state',
+    {
+      get: () => {
+        refresh();
+        return state;
+      },
+    },
+  ) as CircuitBreaker<A, R>;
+};
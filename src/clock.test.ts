@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  createFakeClock,
+  sleep,
+  systemClock,
+} from './clock.js';
+
+describe('createFakeClock', () => {
+  it('starts at the given time', () => {
+    expect(createFakeClock().now()).toBe(0);
+    expect(createFakeClock({ now: 1000 }).now()).toBe(1000);
+  });
+
+  it('fires due timers in order on tick', async () => {
+    const clock = createFakeClock();
+    const fired: string[] = [];
+    clock.setTimeout(() => fired.push('b'), 20);
+    clock.setTimeout(() => fired.push('a'), 10);
+    clock.setTimeout(() => fired.push('c'), 20);
+    clock.setTimeout(() => fired.push('late'), 100);
+    await clock.tick(50);
+    expect(fired).toEqual(['a', 'b', 'c']);
+    expect(clock.now()).toBe(50);
+    expect(clock.pending).toBe(1);
+  });
+
+  it('reports the due time inside timer callbacks', async () => {
+    const clock = createFakeClock();
+    let seen = -1;
+    clock.setTimeout(() => {
+      seen = clock.now();
+    }, 30);
+    await clock.tick(100);
+    expect(seen).toBe(30);
+  });
+
+  it('clears timers', async () => {
+    const clock = createFakeClock();
+    let fired = false;
+    const handle = clock.setTimeout(() => {
+      fired = true;
+    }, 10);
+    clock.clearTimeout(handle);
+    await clock.tick(10);
+    expect(fired).toBe(false);
+  });
+
+  it('runs chained async timers with runAll', async () => {
+    const clock = createFakeClock();
+    const run = async () => {
+      await sleep(100, { clock });
+      await sleep(200, { clock });
+      return clock.now();
+    };
+    const result = run();
+    await clock.runAll();
+    expect(await result).toBe(300);
+  });
+
+  it('sleeps for duration strings', async () => {
+    const clock = createFakeClock();
+    const done = sleep('1m30s', { clock }).then(() =>
+      clock.now(),
+    );
+    await clock.runAll();
+    expect(await done).toBe(90_000);
+  });
+
+  it('stops runAll after the loop limit', async () => {
+    const clock = createFakeClock({ loopLimit: 5 });
+    const loop = () => clock.setTimeout(loop, 1);
+    loop();
+    await expect(clock.runAll()).rejects.toThrow(
+      'runAll aborted after 5 timers',
+    );
+  });
+
+  it('uses the provided random source', () => {
+    expect(createFakeClock().random()).toBe(0.5);
+    expect(
+      createFakeClock({ random: () => 0.25 }).random(),
+    ).toBe(0.25);
+  });
+});
+
+describe('systemClock', () => {
+  it('uses real time and timers', async () => {
+    const start = systemClock.now();
+    await new Promise<void>(resolve =>
+      systemClock.setTimeout(resolve, 5),
+    );
+    expect(systemClock.now()).toBeGreaterThanOrEqual(start);
+    const r = systemClock.random();
+    expect(r).toBeGreaterThanOrEqual(0);
+    expect(r).toBeLessThan(1);
+  });
+});
@@ -0,0 +1,171 @@
+import { abortReason } from './abort.js';
+import {
+  type Duration,
+  toMilliseconds,
+} from './duration.js';
+
+/**
+ * Opaque handle returned by `Clock.setTimeout`.
+ */
+export type TimerHandle = unknown;
+
+/**
+ * Source of time, timers and randomness used by the timing utilities.
+ * Pass a custom clock (usually `createFakeClock()`) to control them in
+ * tests.
+ */
+export interface Clock {
+  /** Current time in epoch milliseconds. */
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+  /** Random number in `[0, 1)`, used for jitter. */
+  random(): number;
+}
+
+/**
+ * Clock backed by the global timers, `Date.now` and `Math.random`.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: handle =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+  random: () => Math.random(),
+};
+
+export interface FakeClockOptions {
+  /** Initial value of `now()`. Defaults to 0. */
+  now?: number;
+  /** Source for `random()`. Defaults to always returning 0.5. */
+  random?: () => number;
+  /** Maximum timers `runAll` fires before giving up. Defaults to 10000. */
+  loopLimit?: number;
+}
+
+/**
+ * A manually advanced clock. `tick` and `runAll` let pending promise
+ * callbacks settle between timers, so async code such as `retry`
+ * progresses as it would in real time.
+ */
+export interface FakeClock extends Clock {
+  /** Advances time by `ms`, firing every timer that comes due. */
+  tick(ms: number): Promise<void>;
+  /** Fires timers until none are left, advancing time as it goes. */
+  runAll(): Promise<void>;
+  /** Number of scheduled timers. */
+  readonly pending: number;
+}
+
+interface FakeTimer {
+  id: number;
+  at: number;
+  callback: () => void;
+}
+
+const realSetTimeout = globalThis.setTimeout;
+
+/** Lets every queued promise callback run. */
+const settle = () =>
+  new Promise<void>(resolve => realSetTimeout(resolve, 0));
+
+/**
+ * Creates a `FakeClock` whose time only moves through `tick` and
+ * `runAll`.
+ */
+export const createFakeClock = ({
+  now: start = 0,
+  random = () => 0.5,
+  loopLimit = 10_000,
+}: FakeClockOptions = {}): FakeClock => {
+  let now = start;
+  let nextId = 1;
+  let timers: FakeTimer[] = [];
+
+  const fireNext = (until: number): boolean => {
+    let next: FakeTimer | undefined;
+    for (const timer of timers)
+      if (
+        timer.at <= until &&
+        (!next ||
+          timer.at < next.at ||
+          (timer.at === next.at && timer.id < next.id))
+      )
+        next = timer;
+    if (!next) return false;
+    const fired = next;
+    timers = timers.filter(t => t !== fired);
+    now = Math.max(now, fired.at);
+    fired.callback();
+    return true;
+  };
+
+  return {
+    now: () => now,
+    random,
+    setTimeout(callback, ms) {
+      const id = nextId++;
+      timers.push({
+        id,
+        at: now + Math.max(0, ms),
+        callback,
+      });
+      return id;
+    },
+    clearTimeout(handle) {
+      timers = timers.filter(t => t.id !== handle);
+    },
+    async tick(ms) {
+      const target = now + ms;
+      await settle();
+      while (fireNext(target)) await settle();
+      now = target;
+    },
+    async runAll() {
+      await settle();
+      for (let fired = 0; timers.length > 0; fired++) {
+        if (fired >= loopLimit)
+          throw new Error(
+            `runAll aborted after ${loopLimit} timers`,
+          );
+        fireNext(Number.POSITIVE_INFINITY);
+        await settle();
+      }
+    },
+    get pending() {
+      return timers.length;
+    },
+  };
+};
+
+export interface SleepOptions {
+  /** Rejects with the abort reason when aborted. */
+  signal?: AbortSignal;
+  clock?: Clock;
+}
+
+/**
+ * Sleeps for `duration`, given in milliseconds or as a string such as
+ * `1.5s`.
+ */
+export const sleep = (
+  duration: Duration,
+  { signal, clock = systemClock }: SleepOptions = {},
+): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const onAbort = () => {
+      clock.clearTimeout(timer);
+      reject(abortReason(signal as AbortSignal));
+    };
+    const timer = clock.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, toMilliseconds(duration));
+    signal?.addEventListener('abort', onAbort, {
+      once: true,
+    });
+  });
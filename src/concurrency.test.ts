@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  createPool,
+  mapConcurrent,
+} from './concurrency.js';
+import { sleep } from './index.js';
+
+describe('mapConcurrent', () => {
+  it('keeps input order', async () => {
+    const result = await mapConcurrent(
+      [30, 10, 20],
+      async ms => {
+        await sleep(ms);
+        return ms;
+      },
+      { concurrency: 3 },
+    );
+    expect(result).toEqual([30, 10, 20]);
+  });
+
+  it('never exceeds the concurrency limit', async () => {
+    let active = 0;
+    let peak = 0;
+    await mapConcurrent(
+      Array.from({ length: 10 }, (_, i) => i),
+      async () => {
+        peak = Math.max(peak, ++active);
+        await sleep(5);
+        active--;
+      },
+      { concurrency: 3 },
+    );
+    expect(peak).toBe(3);
+  });
+
+  it('consumes async iterables', async () => {
+    async function* source() {
+      for (let i = 1; i <= 4; i++) {
+        await sleep(1);
+        yield i;
+      }
+    }
+    const result = await mapConcurrent(
+      source(),
+      (n, i) => n * 10 + i,
+      { concurrency: 2 },
+    );
+    expect(result).toEqual([10, 21, 32, 43]);
+  });
+
+  it('rejects on the first error by default', async () => {
+    const seen: number[] = [];
+    await expect(
+      mapConcurrent(
+        [1, 2, 3, 4],
+        async n => {
+          seen.push(n);
+          if (n === 2) throw new Error('two');
+          await sleep(5);
+        },
+        { concurrency: 1 },
+      ),
+    ).rejects.toThrow('two');
+    expect(seen).toEqual([1, 2]);
+  });
+
+  it('aggregates errors when stopOnError is false', async () => {
+    const error = await mapConcurrent(
+      [1, 2, 3, 4],
+      async n => {
+        if (n % 2 === 0) throw new Error(`bad ${n}`);
+        return n;
+      },
+      { concurrency: 2, stopOnError: false },
+    ).catch(e => e);
+    expect(error).toBeInstanceOf(AggregateError);
+    expect(
+      error.errors.map((e: Error) => e.message),
+    ).toEqual(['bad 2', 'bad 4']);
+  });
+
+  it('stops pulling items when aborted', async () => {
+    const controller = new AbortController();
+    const seen: number[] = [];
+    const pending = mapConcurrent(
+      [1, 2, 3, 4],
+      async n => {
+        seen.push(n);
+        if (n === 1) controller.abort();
+        await sleep(5);
+      },
+      { concurrency: 1, signal: controller.signal },
+    );
+    await expect(pending).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+    expect(seen).toEqual([1]);
+  });
+
+  it('accepts strings', async () => {
+    expect(
+      await mapConcurrent('ab' as Iterable<string>, c =>
+        c.toUpperCase(),
+      ),
+    ).toEqual(['A', 'B']);
+  });
+
+  it('resolves empty input', async () => {
+    expect(await mapConcurrent([], () => 1)).toEqual([]);
+  });
+
+  it('throws for concurrency < 1', () => {
+    expect(() =>
+      mapConcurrent([1], () => 1, { concurrency: 0 }),
+    ).toThrow(RangeError);
+  });
+});
+
+describe('createPool', () => {
+  it('limits active tasks and reports queue size', async () => {
+    const pool = createPool(2);
+    const tasks = [1, 2, 3].map(n =>
+      pool.run(async () => {
+        await sleep(5);
+        return n;
+      }),
+    );
+    expect(pool.active).toBe(2);
+    expect(pool.size).toBe(1);
+    expect(await Promise.all(tasks)).toEqual([1, 2, 3]);
+    expect(pool.active).toBe(0);
+  });
+
+  it('resolves onIdle once all tasks finish', async () => {
+    const pool = createPool(1);
+    const done: number[] = [];
+    for (const n of [1, 2])
+      pool.run(async () => {
+        await sleep(5);
+        done.push(n);
+      });
+    await pool.onIdle();
+    expect(done).toEqual([1, 2]);
+    await pool.onIdle();
+  });
+
+  it('pauses and resumes', async () => {
+    const pool = createPool(1);
+    pool.pause();
+    const task = pool.run(() => 'ran');
+    await sleep(5);
+    expect(pool.size).toBe(1);
+    expect(pool.isPaused).toBe(true);
+    pool.resume();
+    expect(await task).toBe('ran');
+  });
+
+  it('rejects cleared tasks', async () => {
+    const pool = createPool(1);
+    pool.pause();
+    const task = pool.run(() => 1);
+    pool.clear();
+    await expect(task).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+    expect(pool.size).toBe(0);
+  });
+});
@@ -0,0 +1,237 @@
+import { abortReason } from './abort.js';
+import { isAsyncIterable } from './iterable.js';
+
+export interface MapConcurrentOptions {
+  /** Maximum number of `fn` calls in flight. Defaults to `Infinity`. */
+  concurrency?: number;
+  /** Stops pulling new items and rejects with the abort reason. */
+  signal?: AbortSignal;
+  /**
+   * Reject on the first error. When `false`, every item is processed
+   * and failures are thrown together as an `AggregateError`.
+   * Defaults to `true`.
+   */
+  stopOnError?: boolean;
+}
+
+const assertConcurrency = (concurrency: number): void => {
+  if (!(concurrency >= 1))
+    throw new RangeError('concurrency must be at least 1');
+};
+
+const toIterator = <T>(
+  items: Iterable<T> | AsyncIterable<T>,
+): Iterator<T> | AsyncIterator<T> =>
+  isAsyncIterable(items)
+    ? items[Symbol.asyncIterator]()
+    : items[Symbol.iterator]();
+
+/**
+ * Maps items through an async function with at most `concurrency` calls
+ * in flight. Results keep input order. Accepts arrays, iterables and
+ * async iterables; items are pulled lazily as slots free up.
+ */
+export const mapConcurrent = <T, R>(
+  items: Iterable<T> | AsyncIterable<T>,
+  fn: (item: T, index: number) => R | Promise<R>,
+  {
+    concurrency = Number.POSITIVE_INFINITY,
+    signal,
+    stopOnError = true,
+  }: MapConcurrentOptions = {},
+): Promise<R[]> => {
+  assertConcurrency(concurrency);
+  const iterator = toIterator(items);
+  const results: R[] = [];
+  const errors: { index: number; error: unknown }[] = [];
+  let index = 0;
+  let active = 0;
+  let done = false;
+  let pulling = false;
+  let settled = false;
+
+  return new Promise<R[]>((resolve, reject) => {
+    const onAbort = () =>
+      fail(abortReason(signal as AbortSignal));
+
+    const fail = (error: unknown) => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      void iterator.return?.();
+      reject(error);
+    };
+
+    const finish = () => {
+      if (settled || !done || active > 0) return;
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      if (errors.length === 0) {
+        resolve(results);
+        return;
+      }
+      errors.sort((a, b) => a.index - b.index);
+      reject(
+        new AggregateError(
+          errors.map(e => e.error),
+          `${errors.length} of ${index} items failed`,
+        ),
+      );
+    };
+
+    const start = (item: T, i: number) => {
+      active++;
+      Promise.resolve()
+        .then(() => fn(item, i))
+        .then(
+          value => {
+            results[i] = value;
+          },
+          error => {
+            if (stopOnError) fail(error);
+            else errors.push({ index: i, error });
+          },
+        )
+        .finally(() => {
+          active--;
+          void pump();
+          finish();
+        });
+    };
+
+    const pump = async () => {
+      if (pulling) return;
+      pulling = true;
+      try {
+        while (!settled && !done && active < concurrency) {
+          const next = await iterator.next();
+          if (settled) return;
+          if (next.done) done = true;
+          else start(next.value, index++);
+        }
+      } catch (error) {
+        fail(error);
+      } finally {
+        pulling = false;
+      }
+      finish();
+    };
+
+    if (signal?.aborted) {
+      fail(abortReason(signal));
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, {
+      once: true,
+    });
+    void pump();
+  });
+};
+
+/**
+ * A reusable queue that runs at most `concurrency` tasks at a time.
+ */
+export interface Pool {
+  /** Queues a task and resolves with its result. */
+  run<T>(task: () => T | Promise<T>): Promise<T>;
+  /** Resolves once nothing is queued or running. */
+  onIdle(): Promise<void>;
+  /** Stops starting queued tasks. Running tasks are unaffected. */
+  pause(): void;
+  resume(): void;
+  /** Rejects every queued task that has not started. */
+  clear(reason?: unknown): void;
+  readonly concurrency: number;
+  /** Number of queued tasks waiting for a slot. */
+  readonly size: number;
+  /** Number of tasks currently running. */
+  readonly active: number;
+  readonly isPaused: boolean;
+}
+
+interface QueuedTask {
+  start: () => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Creates a task pool with a fixed concurrency limit.
+ */
+export const createPool = (concurrency: number): Pool => {
+  assertConcurrency(concurrency);
+  const queue: QueuedTask[] = [];
+  let idleWaiters: (() => void)[] = [];
+  let active = 0;
+  let paused = false;
+
+  const notifyIdle = () => {
+    if (active > 0 || queue.length > 0) return;
+    const waiters = idleWaiters;
+    idleWaiters = [];
+    for (const resolve of waiters) resolve();
+  };
+
+  const drain = () => {
+    while (
+      !paused &&
+      active < concurrency &&
+      queue.length
+    ) {
+      (queue.shift() as QueuedTask).start();
+    }
+    notifyIdle();
+  };
+
+  return {
+    run: <T>(task: () => T | Promise<T>) =>
+      new Promise<T>((resolve, reject) => {
+        queue.push({
+          reject,
+          start: () => {
+            active++;
+            Promise.resolve()
+              .then(task)
+              .then(resolve, reject)
+              .finally(() => {
+                active--;
+                drain();
+              });
+          },
+        });
+        drain();
+      }),
+    onIdle: () =>
+      active === 0 && queue.length === 0
+        ? Promise.resolve()
+        : new Promise<void>(resolve => {
+            idleWaiters.push(resolve);
+          }),
+    pause() {
+      paused = true;
+    },
+    resume() {
+      paused = false;
+      drain();
+    },
+    clear(
+      reason = new DOMException(
+        'The task was cleared from the pool.',
+        'AbortError',
+      ),
+    ) {
+      for (const task of queue.splice(0))
+        task.reject(reason);
+      notifyIdle();
+    },
+    concurrency,
+    get size() {
+      return queue.length;
+    },
+    get active() {
+      return active;
+    },
+    get isPaused() {
+      return paused;
+    },
+  };
+};
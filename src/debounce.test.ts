@@ -0,0 +1,179 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { createFakeClock } from './clock.js';
+import {
+  debounce,
+  debounceAsync,
+  throttle,
+} from './debounce.js';
+
+describe('debounce options', () => {
+  it('returns the result of the last invocation', async () => {
+    const clock = createFakeClock();
+    const debounced = debounce((n: number) => n * 2, 10, {
+      clock,
+    });
+    expect(debounced(1)).toBeUndefined();
+    await clock.tick(10);
+    expect(debounced(2)).toBe(2);
+  });
+
+  it('invokes on the leading edge', async () => {
+    const clock = createFakeClock();
+    const fn = mock((n: number) => n);
+    const debounced = debounce(fn, 20, {
+      leading: true,
+      trailing: false,
+      clock,
+    });
+    expect(debounced(1)).toBe(1);
+    expect(debounced(2)).toBe(1);
+    await clock.tick(20);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('forces an invocation after maxWait', async () => {
+    const clock = createFakeClock();
+    const fn = mock(() => {});
+    const debounced = debounce(fn, 30, {
+      maxWait: 50,
+      clock,
+    });
+    for (let i = 0; i < 6; i++) {
+      debounced();
+      await clock.tick(15);
+    }
+    expect(fn).toHaveBeenCalledTimes(1);
+    await clock.tick(30);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('accepts duration strings', async () => {
+    const clock = createFakeClock();
+    const fn = mock(() => {});
+    const debounced = debounce(fn, '1s', {
+      maxWait: '1.5s',
+      clock,
+    });
+    for (let i = 0; i < 4; i++) {
+      debounced();
+      await clock.tick(500);
+    }
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(clock.now()).toBe(2000);
+  });
+
+  it('cancels a pending invocation', async () => {
+    const clock = createFakeClock();
+    const fn = mock(() => {});
+    const debounced = debounce(fn, 10, { clock });
+    debounced();
+    expect(debounced.pending()).toBe(true);
+    debounced.cancel();
+    expect(debounced.pending()).toBe(false);
+    await clock.runAll();
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('flushes a pending invocation immediately', () => {
+    const fn = mock((s: string) => s.toUpperCase());
+    const debounced = debounce(fn, 1000);
+    debounced('a');
+    debounced('b');
+    expect(debounced.flush()).toBe('B');
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(debounced.pending()).toBe(false);
+  });
+});
+
+describe('debounceAsync', () => {
+  it('resolves every collapsed caller with one result', async () => {
+    const fn = mock(async (n: number) => n * 10);
+    const debounced = debounceAsync(fn, 10);
+    const results = await Promise.all([
+      debounced(1),
+      debounced(2),
+      debounced(3),
+    ]);
+    expect(results).toEqual([30, 30, 30]);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('requires an edge to invoke on', () => {
+    expect(() =>
+      debounceAsync(async () => 1, 10, {
+        leading: false,
+        trailing: false,
+      }),
+    ).toThrow(RangeError);
+    expect(() =>
+      debounceAsync(async () => 1, 10, { trailing: false }),
+    ).toThrow(
+      'debounceAsync needs leading or trailing enabled',
+    );
+  });
+
+  it('rejects collapsed callers when the call fails', async () => {
+    const debounced = debounceAsync(async () => {
+      throw new Error('boom');
+    }, 10);
+    const results = await Promise.allSettled([
+      debounced(),
+      debounced(),
+    ]);
+    for (const result of results)
+      expect(result).toMatchObject({
+        status: 'rejected',
+        reason: new Error('boom'),
+      });
+  });
+
+  it('resolves dropped callers with the leading result', async () => {
+    const debounced = debounceAsync(
+      async (n: number) => n,
+      10,
+      {
+        leading: true,
+        trailing: false,
+      },
+    );
+    expect(
+      await Promise.all([debounced(1), debounced(2)]),
+    ).toEqual([1, 1]);
+  });
+
+  it('rejects pending callers on cancel', async () => {
+    const debounced = debounceAsync(async () => 1, 50);
+    const pending = debounced();
+    debounced.cancel();
+    await expect(pending).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+  });
+});
+
+describe('throttle', () => {
+  it('runs at most once per interval', async () => {
+    const clock = createFakeClock();
+    const fn = mock(() => {});
+    const throttled = throttle(fn, 30, { clock });
+    throttled();
+    throttled();
+    throttled();
+    expect(fn).toHaveBeenCalledTimes(1);
+    await clock.tick(30);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips the trailing call when disabled', async () => {
+    const clock = createFakeClock();
+    const fn = mock(() => {});
+    const throttled = throttle(fn, 20, {
+      trailing: false,
+      clock,
+    });
+    throttled();
+    throttled();
+    await clock.runAll();
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,286 @@
+import {
+  type Clock,
+  systemClock,
+  type TimerHandle,
+} from './clock.js';
+import {
+  type Duration,
+  toMilliseconds,
+} from './duration.js';
+
+export interface DebounceOptions {
+  /** Invoke on the leading edge of the wait. Defaults to `false`. */
+  leading?: boolean;
+  /** Invoke on the trailing edge of the wait. Defaults to `true`. */
+  trailing?: boolean;
+  /** Longest time a call may be delayed before it is forced through. */
+  maxWait?: Duration;
+  /** Time and timer source. Defaults to `systemClock`. */
+  clock?: Clock;
+}
+
+export interface ThrottleOptions {
+  /** Invoke on the leading edge of the interval. Defaults to `true`. */
+  leading?: boolean;
+  /** Invoke on the trailing edge of the interval. Defaults to `true`. */
+  trailing?: boolean;
+  /** Time and timer source. Defaults to `systemClock`. */
+  clock?: Clock;
+}
+
+interface Controls<R> {
+  /** Drops any pending invocation. */
+  cancel(): void;
+  /** Immediately runs a pending invocation and returns its result. */
+  flush(): R | undefined;
+  /** Whether an invocation is scheduled. */
+  pending(): boolean;
+}
+
+/**
+ * A debounced or throttled function. Calls return the result of the
+ * most recent invocation, or `undefined` before the first one.
+ */
+export interface Debounced<A extends unknown[], R>
+  extends Controls<R> {
+  (...args: A): R | undefined;
+}
+
+/**
+ * An async debounced function. Every call that was collapsed into an
+ * invocation resolves with that invocation's result.
+ */
+export interface DebouncedAsync<A extends unknown[], R>
+  extends Controls<Promise<R>> {
+  (...args: A): Promise<R>;
+}
+
+interface Engine<A extends unknown[], R>
+  extends Controls<R> {
+  call(args: A): R | undefined;
+}
+
+/**
+ * Shared timing core for `debounce`, `debounceAsync` and `throttle`.
+ * `onIdle` runs when a wait ends without a trailing invocation.
+ */
+const createEngine = <A extends unknown[], R>(
+  invoke: (...args: A) => R,
+  delay: Duration,
+  {
+    leading = false,
+    trailing = true,
+    maxWait,
+    clock = systemClock,
+  }: DebounceOptions,
+  onIdle?: () => void,
+): Engine<A, R> => {
+  const wait = toMilliseconds(delay);
+  const maxing = maxWait !== undefined;
+  const maxDelay = Math.max(
+    maxing ? toMilliseconds(maxWait) : 0,
+    wait,
+  );
+  let timer: TimerHandle | undefined;
+  let lastArgs: A | undefined;
+  let lastCallTime: number | undefined;
+  let lastInvokeTime = 0;
+  let result: R | undefined;
+
+  const invokeWith = (time: number): R | undefined => {
+    const args = lastArgs as A;
+    lastArgs = undefined;
+    lastInvokeTime = time;
+    result = invoke(...args);
+    return result;
+  };
+
+  const remainingWait = (time: number): number => {
+    const sinceCall = time - (lastCallTime ?? 0);
+    const waiting = wait - sinceCall;
+    return maxing
+      ? Math.min(
+          waiting,
+          maxDelay - (time - lastInvokeTime),
+        )
+      : waiting;
+  };
+
+  const shouldInvoke = (time: number): boolean => {
+    if (lastCallTime === undefined) return true;
+    const sinceCall = time - lastCallTime;
+    return (
+      sinceCall >= wait ||
+      sinceCall < 0 ||
+      (maxing && time - lastInvokeTime >= maxDelay)
+    );
+  };
+
+  const trailingEdge = (time: number): R | undefined => {
+    timer = undefined;
+    if (trailing && lastArgs) return invokeWith(time);
+    lastArgs = undefined;
+    onIdle?.();
+    return result;
+  };
+
+  const timerExpired = (): void => {
+    const time = clock.now();
+    if (shouldInvoke(time)) {
+      trailingEdge(time);
+      return;
+    }
+    timer = clock.setTimeout(
+      timerExpired,
+      remainingWait(time),
+    );
+  };
+
+  const leadingEdge = (time: number): R | undefined => {
+    lastInvokeTime = time;
+    timer = clock.setTimeout(timerExpired, wait);
+    return leading ? invokeWith(time) : result;
+  };
+
+  return {
+    call(args) {
+      const time = clock.now();
+      const invoking = shouldInvoke(time);
+      lastArgs = args;
+      lastCallTime = time;
+      if (invoking) {
+        if (timer === undefined) return leadingEdge(time);
+        if (maxing) {
+          clock.clearTimeout(timer);
+          timer = clock.setTimeout(timerExpired, wait);
+          return invokeWith(time);
+        }
+      }
+      if (timer === undefined)
+        timer = clock.setTimeout(timerExpired, wait);
+      return result;
+    },
+    cancel() {
+      clock.clearTimeout(timer);
+      timer = undefined;
+      lastArgs = undefined;
+      lastCallTime = undefined;
+      lastInvokeTime = 0;
+    },
+    flush() {
+      if (timer === undefined) return result;
+      clock.clearTimeout(timer);
+      return trailingEdge(clock.now());
+    },
+    pending: () => timer !== undefined,
+  };
+};
+
+/**
+ * Creates a debounced version of a function.
+ */
+export const debounce = <A extends unknown[], R>(
+  fn: (...args: A) => R,
+  delay: Duration,
+  options: DebounceOptions = {},
+): Debounced<A, R> => {
+  const engine = createEngine(fn, delay, options);
+  return Object.assign((...args: A) => engine.call(args), {
+    cancel: engine.cancel,
+    flush: engine.flush,
+    pending: engine.pending,
+  });
+};
+
+interface Waiter<R> {
+  resolve: (value: R) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Creates a debounced version of an async function. Callers collapsed
+ * into one invocation all resolve (or reject) with its outcome;
+ * cancelled callers reject with an `AbortError`. Throws a
+ * `RangeError` when both edges are disabled, as no call would settle.
+ */
+export const debounceAsync = <A extends unknown[], R>(
+  fn: (...args: A) => R | Promise<R>,
+  delay: Duration,
+  options: DebounceOptions = {},
+): DebouncedAsync<A, R> => {
+  const { leading = false, trailing = true } = options;
+  if (!leading && !trailing)
+    throw new RangeError(
+      'debounceAsync needs leading or trailing enabled',
+    );
+  let waiters: Waiter<R>[] = [];
+  let last: Promise<R> | undefined;
+
+  const settle = (promise: Promise<R>) => {
+    const batch = waiters;
+    waiters = [];
+    promise.then(
+      value => {
+        for (const w of batch) w.resolve(value);
+      },
+      error => {
+        for (const w of batch) w.reject(error);
+      },
+    );
+  };
+
+  const engine = createEngine(
+    (...args: A) => {
+      last = Promise.resolve().then(() => fn(...args));
+      settle(last);
+      return last;
+    },
+    delay,
+    options,
+    () => {
+      if (last) settle(last);
+    },
+  );
+
+  return Object.assign(
+    (...args: A) =>
+      new Promise<R>((resolve, reject) => {
+        waiters.push({ resolve, reject });
+        engine.call(args);
+      }),
+    {
+      cancel() {
+        engine.cancel();
+        const batch = waiters;
+        waiters = [];
+        const error = new DOMException(
+          'Debounced call was cancelled.',
+          'AbortError',
+        );
+        for (const w of batch) w.reject(error);
+      },
+      flush: engine.flush,
+      pending: engine.pending,
+    },
+  );
+};
+
+/**
+ * Creates a throttled version of a function that runs at most once
+ * per `interval`.
+ */
+export const throttle = <A extends unknown[], R>(
+  fn: (...args: A) => R,
+  interval: Duration,
+  {
+    leading = true,
+    trailing = true,
+    clock,
+  }: ThrottleOptions = {},
+): Debounced<A, R> =>
+  debounce(fn, interval, {
+    leading,
+    trailing,
+    maxWait: interval,
+    clock,
+  });
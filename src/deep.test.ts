@@ -0,0 +1,344 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  type Cloner,
+  deepClone,
+  deepEqual,
+  deepMerge,
+} from './deep.js';
+
+class Point {
+  constructor(
+    public x: number,
+    public y: number,
+  ) {}
+
+  length() {
+    return Math.hypot(this.x, this.y);
+  }
+}
+
+describe('deepClone options', () => {
+  it('clones circular references', () => {
+    const obj: Record<string, unknown> = { a: 1 };
+    obj.self = obj;
+    obj.list = [obj];
+    const cloned = deepClone(obj);
+    expect(cloned).not.toBe(obj);
+    expect(cloned.self).toBe(cloned);
+    expect((cloned.list as unknown[])[0]).toBe(cloned);
+  });
+
+  it('keeps functions by reference', () => {
+    const fn = () => 1;
+    expect(deepClone({ fn }).fn).toBe(fn);
+  });
+
+  it('clones built-in types', () => {
+    const source = {
+      date: new Date(1000),
+      regexp: /a+/gi,
+      map: new Map([[{ k: 1 }, new Set([1, 2])]]),
+      bytes: new Uint8Array([1, 2, 3]),
+      error: new Error('boom'),
+    };
+    const cloned = deepClone(source);
+    expect(cloned.date).not.toBe(source.date);
+    expect(cloned.date.getTime()).toBe(1000);
+    expect(cloned.regexp.flags).toBe('gi');
+    const [[key, set]] = [...cloned.map];
+    expect(key).toEqual({ k: 1 });
+    expect([...set]).toEqual([1, 2]);
+    expect(cloned.bytes).toEqual(new Uint8Array([1, 2, 3]));
+    expect(cloned.bytes.buffer).not.toBe(
+      source.bytes.buffer,
+    );
+    expect(cloned.error).toBeInstanceOf(Error);
+    expect(cloned.error.message).toBe('boom');
+  });
+
+  it('drops prototypes unless asked', () => {
+    const point = new Point(3, 4);
+    expect(deepClone(point)).not.toBeInstanceOf(Point);
+    const kept = deepClone(point, {
+      preservePrototype: true,
+    });
+    expect(kept).toBeInstanceOf(Point);
+    expect(kept.length()).toBe(5);
+    expect(kept).not.toBe(point);
+  });
+
+  it('uses custom cloners', () => {
+    const cloners = new Map([
+      [
+        Point,
+        ((p: Point) => new Point(p.x * 10, p.y)) as Cloner,
+      ],
+    ]);
+    const cloned = deepClone(
+      { p: new Point(1, 2) },
+      { cloners },
+    );
+    expect(cloned.p).toBeInstanceOf(Point);
+    expect(cloned.p.x).toBe(10);
+  });
+
+  it('follows cycles through custom cloners', () => {
+    class Node {
+      next?: Node;
+      constructor(public label: string) {}
+    }
+    const cloners = new Map([
+      [
+        Node,
+        ((node: Node, clone, register) => {
+          const copy = register(new Node(node.label));
+          copy.next = clone(node.next);
+          return copy;
+        }) as Cloner,
+      ],
+    ]);
+    const a = new Node('a');
+    a.next = a;
+    const cloned = deepClone(a, { cloners });
+    expect(cloned).not.toBe(a);
+    expect(cloned.next).toBe(cloned);
+  });
+
+  it('rejects cycles a custom cloner does not register', () => {
+    class Node {
+      next?: Node;
+    }
+    const cloners = new Map([
+      [
+        Node,
+        ((node: Node, clone) => ({
+          next: clone(node.next),
+        })) as Cloner,
+      ],
+    ]);
+    const a = new Node();
+    a.next = a;
+    expect(() => deepClone(a, { cloners })).toThrow(
+      /call register\(\)/,
+    );
+  });
+
+  it('shares values beyond maxDepth', () => {
+    const source = { a: { b: { c: 1 } } };
+    const cloned = deepClone(source, { maxDepth: 2 });
+    expect(cloned.a).not.toBe(source.a);
+    expect(cloned.a.b).toBe(source.a.b);
+  });
+
+  it('treats __proto__ as a plain key', () => {
+    const cloned = deepClone(
+      JSON.parse('{"__proto__":{"polluted":true}}'),
+    );
+    expect(
+      ({} as Record<string, unknown>).polluted,
+    ).toBeUndefined();
+    expect(Object.keys(cloned)).toEqual(['__proto__']);
+  });
+});
+
+describe('deepEqual', () => {
+  it('compares primitives and NaN', () => {
+    expect(deepEqual(1, 1)).toBe(true);
+    expect(deepEqual(NaN, NaN)).toBe(true);
+    expect(deepEqual(1, '1')).toBe(false);
+    expect(deepEqual(null, undefined)).toBe(false);
+  });
+
+  it('compares nested objects and arrays', () => {
+    expect(
+      deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] }),
+    ).toBe(true);
+    expect(
+      deepEqual({ a: 1 }, { a: 1, b: undefined }),
+    ).toBe(false);
+    expect(deepEqual([1, 2], { 0: 1, 1: 2 })).toBe(false);
+  });
+
+  it('compares the message, name and cause of Errors', () => {
+    expect(deepEqual(new Error('a'), new Error('a'))).toBe(
+      true,
+    );
+    expect(deepEqual(new Error('a'), new Error('b'))).toBe(
+      false,
+    );
+    expect(
+      deepEqual(new TypeError('a'), new RangeError('a')),
+    ).toBe(false);
+    expect(
+      deepEqual(
+        new Error('a', { cause: 1 }),
+        new Error('a', { cause: 2 }),
+      ),
+    ).toBe(false);
+    expect(
+      deepEqual(
+        Object.assign(new Error('a'), { code: 1 }),
+        Object.assign(new Error('a'), { code: 2 }),
+      ),
+    ).toBe(false);
+  });
+
+  it('compares boxed primitives by value', () => {
+    expect(deepEqual(new Number(1), new Number(1))).toBe(
+      true,
+    );
+    expect(deepEqual(new Number(1), new Number(2))).toBe(
+      false,
+    );
+    expect(
+      deepEqual(new Number(NaN), new Number(NaN)),
+    ).toBe(true);
+    expect(
+      deepEqual(new Boolean(true), new Boolean(false)),
+    ).toBe(false);
+    expect(
+      deepEqual(new String('a'), new String('b')),
+    ).toBe(false);
+    expect(deepEqual(Object(1n), Object(2n))).toBe(false);
+    expect(deepEqual(Object(1n), Object(1n))).toBe(true);
+  });
+
+  it('compares Maps and Sets by content', () => {
+    expect(
+      deepEqual(
+        new Map([[{ id: 1 }, 'a']]),
+        new Map([[{ id: 1 }, 'a']]),
+      ),
+    ).toBe(true);
+    expect(
+      deepEqual(new Map([['a', 1]]), new Map([['a', 2]])),
+    ).toBe(false);
+    expect(
+      deepEqual(
+        new Set([1, { a: 1 }]),
+        new Set([{ a: 1 }, 1]),
+      ),
+    ).toBe(true);
+    expect(deepEqual(new Set([1]), new Set([2]))).toBe(
+      false,
+    );
+  });
+
+  it('compares Dates, RegExps and typed arrays', () => {
+    expect(deepEqual(new Date(1), new Date(1))).toBe(true);
+    expect(deepEqual(new Date(1), new Date(2))).toBe(false);
+    expect(deepEqual(/a/g, /a/g)).toBe(true);
+    expect(deepEqual(/a/g, /a/i)).toBe(false);
+    expect(
+      deepEqual(
+        new Uint8Array([1, 2]),
+        new Uint8Array([1, 2]),
+      ),
+    ).toBe(true);
+    expect(
+      deepEqual(new Uint8Array([1]), new Int8Array([1])),
+    ).toBe(false);
+  });
+
+  it('handles circular references', () => {
+    const a: Record<string, unknown> = { v: 1 };
+    a.self = a;
+    const b: Record<string, unknown> = { v: 1 };
+    b.self = b;
+    expect(deepEqual(a, b)).toBe(true);
+    b.v = 2;
+    expect(deepEqual(a, b)).toBe(false);
+  });
+
+  it('checks prototypes in strict mode', () => {
+    const plain = { x: 1, y: 2 };
+    expect(deepEqual(new Point(1, 2), plain)).toBe(true);
+    expect(
+      deepEqual(new Point(1, 2), plain, { strict: true }),
+    ).toBe(false);
+  });
+});
+
+describe('deepMerge', () => {
+  it('merges nested objects without mutating inputs', () => {
+    const target = { a: 1, nested: { b: 2, c: 3 } };
+    const source = { nested: { c: 4, d: 5 }, e: 6 };
+    const merged = deepMerge(target, source);
+    expect(merged).toEqual({
+      a: 1,
+      nested: { b: 2, c: 4, d: 5 },
+      e: 6,
+    });
+    expect(target.nested).toEqual({ b: 2, c: 3 });
+    expect(merged.nested).not.toBe(target.nested);
+  });
+
+  it('skips undefined source values', () => {
+    expect(deepMerge({ a: 1 }, { a: undefined })).toEqual({
+      a: 1,
+    });
+  });
+
+  it('replaces arrays by default', () => {
+    expect(deepMerge({ a: [1, 2] }, { a: [3] })).toEqual({
+      a: [3],
+    });
+  });
+
+  it('concatenates arrays', () => {
+    expect(
+      deepMerge(
+        { a: [1, 2] },
+        { a: [3] },
+        { arrays: 'concat' },
+      ),
+    ).toEqual({ a: [1, 2, 3] });
+  });
+
+  it('merges arrays by key', () => {
+    const merged = deepMerge(
+      {
+        users: [
+          { id: 1, name: 'a', tags: ['x'] },
+          { id: 2, name: 'b' },
+        ],
+      },
+      {
+        users: [
+          { id: 2, name: 'B' },
+          { id: 3, name: 'c' },
+        ],
+      },
+      { arrays: { by: 'id' } },
+    );
+    expect(merged.users).toEqual([
+      { id: 1, name: 'a', tags: ['x'] },
+      { id: 2, name: 'B' },
+      { id: 3, name: 'c' },
+    ]);
+  });
+
+  it('merges arrays by key function', () => {
+    const merged = deepMerge(
+      [{ k: 'a', v: 1 }],
+      [{ k: 'A', v: 2 }],
+      {
+        arrays: {
+          by: item =>
+            (item as { k: string }).k.toLowerCase(),
+        },
+      },
+    );
+    expect(merged).toEqual([{ k: 'A', v: 2 }]);
+  });
+
+  it('does not pollute prototypes', () => {
+    deepMerge(
+      {},
+      JSON.parse('{"__proto__":{"polluted":true}}'),
+    );
+    expect(
+      ({} as Record<string, unknown>).polluted,
+    ).toBeUndefined();
+  });
+});
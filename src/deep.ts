@@ -0,0 +1,529 @@
+/**
+ * Any class constructor, used to match values to custom cloners.
+ */
+export type Constructor<T = unknown> = abstract new (
+  ...args: never[]
+) => T;
+
+/**
+ * Clones a value of a registered type. `clone` recursively clones
+ * nested values with the same options and cycle tracking. Pass the
+ * new object to `register` before cloning values that may refer back
+ * to `value`, so those references resolve to it.
+ */
+export type Cloner<T = never> = (
+  value: T,
+  clone: <V>(value: V) => V,
+  register: <R>(result: R) => R,
+) => unknown;
+
+export interface DeepCloneOptions {
+  /**
+   * Keep the prototype of class instances and null-prototype objects.
+   * When `false`, they are cloned into plain objects. Defaults to `false`.
+   */
+  preservePrototype?: boolean;
+  /**
+   * Custom cloners by type, checked with `instanceof` before the
+   * built-in handling.
+   */
+  cloners?: Map<Constructor, Cloner>;
+  /**
+   * Number of nesting levels to clone. Values deeper than that are
+   * shared by reference. Defaults to `Infinity`.
+   */
+  maxDepth?: number;
+}
+
+export interface DeepEqualOptions {
+  /** Also require matching prototypes. Defaults to `false`. */
+  strict?: boolean;
+}
+
+/**
+ * How `deepMerge` combines two arrays at the same path.
+ *
+ * - `replace` keeps the source array.
+ * - `concat` appends source items to target items.
+ * - `{ by }` merges items that share a key and appends the rest.
+ */
+export type ArrayMergeStrategy =
+  | 'replace'
+  | 'concat'
+  | { by: PropertyKey | ((item: unknown) => unknown) };
+
+export interface DeepMergeOptions {
+  /** Defaults to `replace`. */
+  arrays?: ArrayMergeStrategy;
+}
+
+type PlainRecord = Record<PropertyKey, unknown>;
+
+/**
+ * Result type of `deepMerge(target, source)`.
+ */
+export type DeepMerged<T, S> = [S] extends [undefined]
+  ? T
+  : S extends readonly (infer SI)[]
+    ? T extends readonly (infer TI)[]
+      ? (TI | SI)[]
+      : S
+    : S extends PlainRecord
+      ? T extends PlainRecord
+        ? {
+            [K in keyof T | keyof S]: K extends keyof S
+              ? K extends keyof T
+                ? DeepMerged<T[K], S[K]>
+                : S[K]
+              : K extends keyof T
+                ? T[K]
+                : never;
+          }
+        : S
+      : S;
+
+// Shared traversal core
+
+const tagOf = (value: object): string =>
+  Object.prototype.toString.call(value).slice(8, -1);
+
+const isObject = (value: unknown): value is object =>
+  typeof value === 'object' && value !== null;
+
+const isPlainObject = (
+  value: unknown,
+): value is PlainRecord => {
+  if (!isObject(value) || tagOf(value) !== 'Object')
+    return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === null || proto === Object.prototype;
+};
+
+/** Own enumerable string and symbol keys. */
+const ownKeys = (value: object): PropertyKey[] => [
+  ...Object.keys(value),
+  ...Object.getOwnPropertySymbols(value).filter(symbol =>
+    Object.prototype.propertyIsEnumerable.call(
+      value,
+      symbol,
+    ),
+  ),
+];
+
+const get = (value: object, key: PropertyKey): unknown =>
+  (value as PlainRecord)[key];
+
+/** Sets an own property, treating `__proto__` as a plain key. */
+const put = (
+  target: PlainRecord,
+  key: PropertyKey,
+  value: unknown,
+): void => {
+  Object.defineProperty(target, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  });
+};
+
+// deepClone
+
+/** Marks values whose custom cloner has not registered a result. */
+const PENDING = Symbol('pending');
+
+interface CloneContext {
+  seen: Map<object, unknown>;
+  options: DeepCloneOptions;
+}
+
+const findCloner = (
+  value: object,
+  cloners: Map<Constructor, Cloner> | undefined,
+): Cloner<object> | undefined => {
+  if (!cloners) return undefined;
+  for (const [type, cloner] of cloners)
+    if (value instanceof type)
+      return cloner as Cloner<object>;
+  return undefined;
+};
+
+const cloneBuiltin = (
+  value: object,
+  clone: <V>(value: V) => V,
+  ctx: CloneContext,
+): unknown => {
+  switch (tagOf(value)) {
+    case 'Date':
+      return new Date((value as Date).getTime());
+    case 'RegExp': {
+      const regexp = value as RegExp;
+      const result = new RegExp(
+        regexp.source,
+        regexp.flags,
+      );
+      result.lastIndex = regexp.lastIndex;
+      return result;
+    }
+    case 'Map': {
+      const result = new Map();
+      ctx.seen.set(value, result);
+      for (const [k, v] of value as Map<unknown, unknown>)
+        result.set(clone(k), clone(v));
+      return result;
+    }
+    case 'Set': {
+      const result = new Set();
+      ctx.seen.set(value, result);
+      for (const v of value as Set<unknown>)
+        result.add(clone(v));
+      return result;
+    }
+    case 'ArrayBuffer':
+      return (value as ArrayBuffer).slice(0);
+    case 'DataView': {
+      const view = value as DataView;
+      return new DataView(
+        clone(view.buffer),
+        view.byteOffset,
+        view.byteLength,
+      );
+    }
+    default:
+      return ArrayBuffer.isView(value)
+        ? (value as Uint8Array).slice()
+        : undefined;
+  }
+};
+
+const cloneObject = (
+  value: object,
+  clone: <V>(value: V) => V,
+  ctx: CloneContext,
+): unknown => {
+  if (Array.isArray(value)) {
+    const result: unknown[] = new Array(value.length);
+    ctx.seen.set(value, result);
+    for (let i = 0; i < value.length; i++)
+      result[i] = clone(value[i]);
+    return result;
+  }
+  const proto = Object.getPrototypeOf(value);
+  const result: PlainRecord = Object.create(
+    ctx.options.preservePrototype || value instanceof Error
+      ? proto
+      : Object.prototype,
+  );
+  ctx.seen.set(value, result);
+  if (value instanceof Error)
+    for (const key of [
+      'message',
+      'stack',
+      'cause',
+    ] as const)
+      if (Object.hasOwn(value, key))
+        Object.defineProperty(result, key, {
+          value: clone(value[key]),
+          writable: true,
+          configurable: true,
+        });
+  for (const key of ownKeys(value))
+    put(result, key, clone(get(value, key)));
+  return result;
+};
+
+const cloneWith = (
+  value: unknown,
+  depth: number,
+  ctx: CloneContext,
+): unknown => {
+  if (!isObject(value)) return value;
+  if (
+    depth >=
+    (ctx.options.maxDepth ?? Number.POSITIVE_INFINITY)
+  )
+    return value;
+  if (ctx.seen.get(value) === PENDING)
+    throw new TypeError(
+      'Custom cloner reached its own value again; call register() with the clone before cloning nested values',
+    );
+  if (ctx.seen.has(value)) return ctx.seen.get(value);
+
+  const clone = <V>(nested: V): V =>
+    cloneWith(nested, depth + 1, ctx) as V;
+
+  const cloner = findCloner(value, ctx.options.cloners);
+  if (cloner) ctx.seen.set(value, PENDING);
+  const result = cloner
+    ? cloner(value, clone, registered => {
+        ctx.seen.set(value, registered);
+        return registered;
+      })
+    : (cloneBuiltin(value, clone, ctx) ??
+      cloneObject(value, clone, ctx));
+  ctx.seen.set(value, result);
+  return result;
+};
+
+/**
+ * Deep clones a value, including circular references.
+ *
+ * Handles arrays, plain objects, class instances, Dates, RegExps, Maps,
+ * Sets, Errors, ArrayBuffers and typed arrays. Functions are kept by
+ * reference.
+ */
+export const deepClone = <T>(
+  value: T,
+  options: DeepCloneOptions = {},
+): T =>
+  cloneWith(value, 0, { seen: new Map(), options }) as T;
+
+// deepEqual
+
+interface EqualContext {
+  /** Pairs currently being compared, to stop on cycles. */
+  visiting: Map<object, Set<object>>;
+  strict: boolean;
+}
+
+const equalEntries = (
+  a: Map<unknown, unknown>,
+  b: Map<unknown, unknown>,
+  ctx: EqualContext,
+): boolean => {
+  if (a.size !== b.size) return false;
+  const unmatched = [...b];
+  for (const [key, value] of a) {
+    const index = b.has(key)
+      ? unmatched.findIndex(
+          ([k]) => k === key || Object.is(k, key),
+        )
+      : unmatched.findIndex(([k]) =>
+          equalWith(key, k, ctx),
+        );
+    if (
+      index === -1 ||
+      !equalWith(value, unmatched[index][1], ctx)
+    )
+      return false;
+    unmatched.splice(index, 1);
+  }
+  return true;
+};
+
+const equalMembers = (
+  a: Set<unknown>,
+  b: Set<unknown>,
+  ctx: EqualContext,
+): boolean => {
+  if (a.size !== b.size) return false;
+  const unmatched = [...b].filter(v => !a.has(v));
+  for (const value of a) {
+    if (b.has(value)) continue;
+    const index = unmatched.findIndex(v =>
+      equalWith(value, v, ctx),
+    );
+    if (index === -1) return false;
+    unmatched.splice(index, 1);
+  }
+  return true;
+};
+
+const equalIndexed = (
+  a: ArrayLike<unknown>,
+  b: ArrayLike<unknown>,
+  ctx: EqualContext,
+): boolean => {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++)
+    if (!equalWith(a[i], b[i], ctx)) return false;
+  return true;
+};
+
+const equalKeys = (
+  a: object,
+  b: object,
+  ctx: EqualContext,
+): boolean => {
+  const keys = ownKeys(a);
+  if (keys.length !== ownKeys(b).length) return false;
+  return keys.every(
+    key =>
+      Object.prototype.propertyIsEnumerable.call(b, key) &&
+      equalWith(get(a, key), get(b, key), ctx),
+  );
+};
+
+const bytesOf = (value: ArrayBuffer | ArrayBufferView) =>
+  ArrayBuffer.isView(value)
+    ? new Uint8Array(
+        value.buffer,
+        value.byteOffset,
+        value.byteLength,
+      )
+    : new Uint8Array(value);
+
+const equalObjects = (
+  a: object,
+  b: object,
+  ctx: EqualContext,
+): boolean => {
+  const tag = tagOf(a);
+  if (tag !== tagOf(b)) return false;
+  if (
+    ctx.strict &&
+    Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)
+  )
+    return false;
+  switch (tag) {
+    case 'Date':
+      return Object.is(
+        (a as Date).getTime(),
+        (b as Date).getTime(),
+      );
+    case 'RegExp':
+      return String(a) === String(b);
+    case 'Number':
+    case 'Boolean':
+    case 'String':
+    case 'BigInt':
+      return (
+        Object.is(a.valueOf(), b.valueOf()) &&
+        equalKeys(a, b, ctx)
+      );
+    case 'Error':
+      // `message` and `stack` are not enumerable.
+      return (
+        (['name', 'message', 'cause'] as const).every(key =>
+          equalWith(
+            (a as Error)[key],
+            (b as Error)[key],
+            ctx,
+          ),
+        ) && equalKeys(a, b, ctx)
+      );
+    case 'Map':
+      return equalEntries(
+        a as Map<unknown, unknown>,
+        b as Map<unknown, unknown>,
+        ctx,
+      );
+    case 'Set':
+      return equalMembers(
+        a as Set<unknown>,
+        b as Set<unknown>,
+        ctx,
+      );
+    case 'ArrayBuffer':
+    case 'DataView':
+      return equalIndexed(
+        bytesOf(a as ArrayBuffer),
+        bytesOf(b as ArrayBuffer),
+        ctx,
+      );
+    case 'Array':
+      return (
+        equalIndexed(a as unknown[], b as unknown[], ctx) &&
+        equalKeys(a, b, ctx)
+      );
+    default:
+      return ArrayBuffer.isView(a)
+        ? equalIndexed(
+            a as Uint8Array,
+            b as Uint8Array,
+            ctx,
+          )
+        : equalKeys(a, b, ctx);
+  }
+};
+
+const equalWith = (
+  a: unknown,
+  b: unknown,
+  ctx: EqualContext,
+): boolean => {
+  if (a === b || (Number.isNaN(a) && Number.isNaN(b)))
+    return true;
+  if (!isObject(a) || !isObject(b)) return false;
+
+  const pairs = ctx.visiting.get(a);
+  if (pairs?.has(b)) return true;
+  if (pairs) pairs.add(b);
+  else ctx.visiting.set(a, new Set([b]));
+  try {
+    return equalObjects(a, b, ctx);
+  } finally {
+    ctx.visiting.get(a)?.delete(b);
+  }
+};
+
+/**
+ * Compares two values structurally, including Maps, Sets, Dates,
+ * RegExps, typed arrays and circular references. `NaN` equals `NaN`.
+ */
+export const deepEqual = (
+  a: unknown,
+  b: unknown,
+  { strict = false }: DeepEqualOptions = {},
+): boolean =>
+  equalWith(a, b, { visiting: new Map(), strict });
+
+// deepMerge
+
+const mergeArrays = (
+  target: unknown[],
+  source: unknown[],
+  strategy: ArrayMergeStrategy,
+  merge: (a: unknown, b: unknown) => unknown,
+): unknown[] => {
+  if (strategy === 'replace') return deepClone(source);
+  if (strategy === 'concat')
+    return deepClone([...target, ...source]);
+
+  const { by } = strategy;
+  const keyOf = (item: unknown) =>
+    typeof by === 'function'
+      ? by(item)
+      : isObject(item)
+        ? get(item, by)
+        : undefined;
+  const result = deepClone(target);
+  const index = new Map<unknown, number>();
+  result.forEach((item, i) => {
+    const key = keyOf(item);
+    if (key !== undefined) index.set(key, i);
+  });
+  for (const item of source) {
+    const key = keyOf(item);
+    const at =
+      key === undefined ? undefined : index.get(key);
+    if (at === undefined) result.push(deepClone(item));
+    else result[at] = merge(result[at], item);
+  }
+  return result;
+};
+
+/**
+ * Deep merges `source` into a copy of `target`. Plain objects are
+ * merged key by key, arrays follow `options.arrays`, and any other
+ * source value replaces the target value. `undefined` source values are
+ * skipped. Neither input is mutated.
+ */
+export const deepMerge = <T, S>(
+  target: T,
+  source: S,
+  { arrays = 'replace' }: DeepMergeOptions = {},
+): DeepMerged<T, S> => {
+  const merge = (a: unknown, b: unknown): unknown => {
+    if (b === undefined) return deepClone(a);
+    if (Array.isArray(a) && Array.isArray(b))
+      return mergeArrays(a, b, arrays, merge);
+    if (!isPlainObject(a) || !isPlainObject(b))
+      return deepClone(b);
+    const result: PlainRecord = deepClone(a);
+    for (const key of ownKeys(b))
+      put(result, key, merge(a[key], b[key]));
+    return result;
+  };
+  return merge(target, source) as DeepMerged<T, S>;
+};
@@ -0,0 +1,130 @@
+import {
+  describe,
+  expect,
+  expectTypeOf,
+  it,
+} from 'bun:test';
+import {
+  type Duration,
+  formatDuration,
+  parseDuration,
+  toMilliseconds,
+} from './duration.js';
+
+describe('parseDuration', () => {
+  it('parses single and combined units', () => {
+    expect(parseDuration('500ms')).toBe(500);
+    expect(parseDuration('1.5s')).toBe(1500);
+    expect(parseDuration('1h30m')).toBe(5_400_000);
+    expect(parseDuration('1d2h3m4s5ms')).toBe(93_784_005);
+  });
+
+  it('reads bare numbers as milliseconds', () => {
+    expect(parseDuration('1500')).toBe(1500);
+    expect(parseDuration(' 2m ')).toBe(120_000);
+  });
+
+  it('rejects invalid strings with a clear message', () => {
+    expect(() => parseDuration('1x')).toThrow(
+      'Invalid duration "1x": expected numbers followed by ms, s, m, h or d',
+    );
+    expect(() => parseDuration('h')).toThrow(TypeError);
+    expect(() => parseDuration('-1s')).toThrow(TypeError);
+    expect(() => parseDuration('1h 30m')).toThrow(
+      TypeError,
+    );
+    expect(() => parseDuration('')).toThrow(
+      'Invalid duration: empty string',
+    );
+  });
+});
+
+describe('toMilliseconds', () => {
+  it('passes numbers through and parses strings', () => {
+    expect(toMilliseconds(250)).toBe(250);
+    expect(toMilliseconds(Number.POSITIVE_INFINITY)).toBe(
+      Number.POSITIVE_INFINITY,
+    );
+    expect(toMilliseconds('2s')).toBe(2000);
+  });
+
+  it('checks the string format at the type level', () => {
+    expectTypeOf<'1h30m'>().toMatchTypeOf<Duration>();
+    expectTypeOf<'1.5s'>().toMatchTypeOf<Duration>();
+    expectTypeOf<'1d2h3m4s5ms'>().toMatchTypeOf<Duration>();
+    // @ts-expect-error leading space
+    expectTypeOf<' 1s'>().toMatchTypeOf<Duration>();
+    // @ts-expect-error units out of order
+    expectTypeOf<'30m1h'>().toMatchTypeOf<Duration>();
+    expect(() =>
+      // @ts-expect-error units out of order
+      toMilliseconds('30m1h'),
+    ).toThrow(
+      'Invalid duration "30m1h": "h" comes after the smaller unit "m"',
+    );
+    expect(() =>
+      // @ts-expect-error repeated unit
+      toMilliseconds('1s1s'),
+    ).toThrow('Invalid duration "1s1s": "s" is repeated');
+    expect(() =>
+      // @ts-expect-error unknown unit
+      toMilliseconds('1x'),
+    ).toThrow(TypeError);
+    expect(() =>
+      // @ts-expect-error missing number
+      toMilliseconds('ms'),
+    ).toThrow(TypeError);
+    expect(() =>
+      // @ts-expect-error negative
+      toMilliseconds('-1s'),
+    ).toThrow(TypeError);
+    expect(() =>
+      // @ts-expect-error exponent
+      toMilliseconds('1e3ms'),
+    ).toThrow(TypeError);
+    expect(() =>
+      // @ts-expect-error exponent after several digits
+      toMilliseconds('15E3ms'),
+    ).toThrow(TypeError);
+    expect(() =>
+      // @ts-expect-error hex
+      toMilliseconds('0x10s'),
+    ).toThrow(TypeError);
+  });
+});
+
+describe('formatDuration', () => {
+  it('defaults to the short style, which parses back', () => {
+    expect(formatDuration(5_400_000)).toBe('1h30m');
+    expect(formatDuration(93_784_005)).toBe('1d2h3m4s5ms');
+    expect(parseDuration(formatDuration(93_784_005))).toBe(
+      93_784_005,
+    );
+    expect(formatDuration(0)).toBe('0ms');
+  });
+
+  it('spells units out in the long style', () => {
+    expect(
+      formatDuration(3_661_000, { style: 'long' }),
+    ).toBe('1 hour 1 minute 1 second');
+    expect(formatDuration(0, { style: 'long' })).toBe(
+      '0 milliseconds',
+    );
+  });
+
+  it('folds days into hours in the digital style', () => {
+    expect(
+      formatDuration(65_000, { style: 'digital' }),
+    ).toBe('1:05');
+    expect(
+      formatDuration(90_000_250, { style: 'digital' }),
+    ).toBe('25:00:00.250');
+  });
+
+  it('rounds fractions and keeps the sign', () => {
+    expect(formatDuration(-1500.4)).toBe('-1s500ms');
+    expect(() => formatDuration(Number.NaN)).toThrow(
+      RangeError,
+    );
+  });
+});
@@ -0,0 +1,181 @@
+export type DurationUnit = 'ms' | 's' | 'm' | 'h' | 'd';
+
+type Digit =
+  | '0'
+  | '1'
+  | '2'
+  | '3'
+  | '4'
+  | '5'
+  | '6'
+  | '7'
+  | '8'
+  | '9';
+
+/**
+ * A `${number}` without letters, ruling out exponents such as `1e3`
+ * and hex such as `0x10`, which have no case-insensitive spelling.
+ */
+type PlainNumber = Lowercase<`${number}`> &
+  Uppercase<`${number}`>;
+
+/** Units that may follow each unit, from largest to smallest. */
+interface SmallerUnits {
+  d: 'h' | 'm' | 's' | 'ms';
+  h: 'm' | 's' | 'ms';
+  m: 's' | 'ms';
+  s: 'ms';
+  ms: never;
+}
+
+type DurationParts<U extends DurationUnit> =
+  U extends DurationUnit
+    ?
+        | `${PlainNumber}${U}`
+        | `${PlainNumber}${U}${DurationParts<SmallerUnits[U]>}`
+    : never;
+
+/**
+ * A duration such as `500ms`, `1.5s` or `1h30m`, with units from
+ * largest to smallest. Checked at the type level, so `'1x'`,
+ * `'-1s'`, `'1e3ms'` and `' 1s'` do not compile. A sign before a
+ * later part, as in `'1h-30m'`, is only caught by `parseDuration`.
+ */
+export type DurationString = DurationParts<DurationUnit> &
+  `${Digit}${string}`;
+
+/** Milliseconds, or a `DurationString`. */
+export type Duration = number | DurationString;
+
+export type DurationStyle = 'short' | 'long' | 'digital';
+
+export interface FormatDurationOptions {
+  /**
+   * - `short` gives `1h30m`, which `parseDuration` reads back.
+   * - `long` gives `1 hour 30 minutes`.
+   * - `digital` gives `1:30:00`, folding days into hours.
+   *
+   * Defaults to `short`.
+   */
+  style?: DurationStyle;
+}
+
+const UNIT_MS: Record<DurationUnit, number> = {
+  d: 86_400_000,
+  h: 3_600_000,
+  m: 60_000,
+  s: 1000,
+  ms: 1,
+};
+
+const UNIT_NAMES: Record<DurationUnit, string> = {
+  d: 'day',
+  h: 'hour',
+  m: 'minute',
+  s: 'second',
+  ms: 'millisecond',
+};
+
+const UNITS = Object.keys(UNIT_MS) as DurationUnit[];
+
+/**
+ * Parses `500ms`, `1.5s` or `1h30m` into milliseconds, with units
+ * from largest to smallest. A bare number
+ * such as `1500` is read as milliseconds, which suits config values.
+ */
+export const parseDuration = (input: string): number => {
+  const raw = input.trim();
+  if (!raw)
+    throw new TypeError('Invalid duration: empty string');
+  if (/^\d+(\.\d+)?$/.test(raw)) return Number(raw);
+  const part = /(\d+(?:\.\d+)?)(ms|s|m|h|d)/y;
+  let total = 0;
+  let previous = -1;
+  while (part.lastIndex < raw.length) {
+    const match = part.exec(raw);
+    if (!match)
+      throw new TypeError(
+        `Invalid duration "${input}": expected numbers followed by ms, s, m, h or d, such as "1h30m"`,
+      );
+    const unit = match[2] as DurationUnit;
+    const index = UNITS.indexOf(unit);
+    if (index <= previous) {
+      const problem =
+        index === previous
+          ? 'is repeated'
+          : `comes after the smaller unit "${UNITS[previous]}"`;
+      throw new TypeError(
+        `Invalid duration "${input}": "${unit}" ${problem}; list units from largest to smallest, such as "1h30m"`,
+      );
+    }
+    previous = index;
+    total += Number(match[1]) * UNIT_MS[unit];
+  }
+  return total;
+};
+
+/** Converts a `Duration` to milliseconds. */
+export const toMilliseconds = (
+  duration: Duration,
+): number =>
+  typeof duration === 'number'
+    ? duration
+    : parseDuration(duration);
+
+/** Splits whole milliseconds into amounts per unit, largest first. */
+const split = (ms: number): [DurationUnit, number][] => {
+  let rest = ms;
+  return UNITS.map(unit => {
+    const amount = Math.floor(rest / UNIT_MS[unit]);
+    rest -= amount * UNIT_MS[unit];
+    return [unit, amount];
+  });
+};
+
+const formatDigital = (ms: number): string => {
+  const hours = Math.floor(ms / UNIT_MS.h);
+  const [, , [, minutes], [, seconds], [, millis]] =
+    split(ms);
+  const pad = (n: number, width = 2) =>
+    String(n).padStart(width, '0');
+  const clock =
+    hours > 0
+      ? `${hours}:${pad(minutes)}:${pad(seconds)}`
+      : `${minutes}:${pad(seconds)}`;
+  return millis > 0 ? `${clock}.${pad(millis, 3)}` : clock;
+};
+
+/**
+ * Formats milliseconds for people. Fractions of a millisecond are
+ * rounded, and zero units are left out.
+ */
+export const formatDuration = (
+  ms: number,
+  { style = 'short' }: FormatDurationOptions = {},
+): string => {
+  if (!Number.isFinite(ms))
+    throw new RangeError('ms must be finite');
+  const sign = ms < 0 ? '-' : '';
+  const whole = Math.round(Math.abs(ms));
+  if (style === 'digital')
+    return sign + formatDigital(whole);
+
+  const parts = split(whole).filter(
+    ([, amount]) => amount > 0,
+  );
+  if (parts.length === 0) parts.push(['ms', 0]);
+  if (style === 'short')
+    return (
+      sign +
+      parts.map(([unit, n]) => `${n}${unit}`).join('')
+    );
+  return (
+    sign +
+    parts
+      .map(
+        ([unit, n]) =>
+          `${n} ${UNIT_NAMES[unit]}${n === 1 ? '' : 's'}`,
+      )
+      .join(' ')
+  );
+};
@@ -0,0 +1,209 @@
+import {
+  describe,
+  expect,
+  expectTypeOf,
+  it,
+  mock,
+} from 'bun:test';
+import { createFakeClock } from './clock.js';
+import { createEmitter } from './emitter.js';
+import { TimeoutError } from './promise.js';
+
+type Events = {
+  message: { from: string; text: string };
+  count: number;
+  ready: undefined;
+};
+
+describe('createEmitter', () => {
+  it('calls listeners in registration order', () => {
+    const emitter = createEmitter<Events>();
+    const calls: string[] = [];
+    emitter.on('message', m => calls.push(`a:${m.text}`));
+    emitter.on('message', m => calls.push(`b:${m.text}`));
+    expect(
+      emitter.emit('message', { from: 'ada', text: 'hi' }),
+    ).toBe(true);
+    expect(calls).toEqual(['a:hi', 'b:hi']);
+    expect(emitter.emit('count', 1)).toBe(false);
+  });
+
+  it('checks event names and payloads', () => {
+    const emitter = createEmitter<Events>();
+    emitter.on('count', n => expectTypeOf(n).toBeNumber());
+    emitter.emit('ready');
+    // @ts-expect-error wrong payload type
+    emitter.emit('count', 'one');
+    // @ts-expect-error unknown event
+    emitter.on('missing', () => {});
+    // @ts-expect-error payload required
+    emitter.emit('count');
+  });
+
+  it('removes listeners with off or the returned function', () => {
+    const emitter = createEmitter<Events>();
+    const a = mock();
+    const b = mock();
+    const offA = emitter.on('count', a);
+    emitter.on('count', b);
+    offA();
+    emitter.off('count', b);
+    emitter.emit('count', 1);
+    expect(a).not.toHaveBeenCalled();
+    expect(b).not.toHaveBeenCalled();
+    expect(emitter.listenerCount('count')).toBe(0);
+  });
+
+  it('calls once listeners a single time', () => {
+    const emitter = createEmitter<Events>();
+    const listener = mock();
+    emitter.once('count', listener);
+    emitter.emit('count', 1);
+    emitter.emit('count', 2);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(1);
+  });
+
+  it('tracks on and once registrations of one listener apart', () => {
+    const emitter = createEmitter<Events>();
+    const listener = mock();
+    emitter.on('count', listener);
+    emitter.once('count', listener);
+    emitter.emit('count', 1);
+    emitter.emit('count', 2);
+    expect(listener).toHaveBeenCalledTimes(3);
+    expect(emitter.listenerCount('count')).toBe(1);
+
+    const off = emitter.once('count', listener);
+    off();
+    emitter.emit('count', 3);
+    expect(listener).toHaveBeenCalledTimes(4);
+    expect(emitter.listenerCount('count')).toBe(1);
+  });
+
+  it('lets listeners remove others during emit', () => {
+    const emitter = createEmitter<Events>();
+    const second = mock();
+    emitter.on('count', () => emitter.off('count', second));
+    emitter.on('count', second);
+    emitter.emit('count', 1);
+    emitter.emit('count', 2);
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('passes every event to wildcard listeners', () => {
+    const emitter = createEmitter<Events>();
+    const seen: unknown[] = [];
+    const off = emitter.onAny((event, payload) => {
+      if (event === 'count')
+        expectTypeOf(payload).toBeNumber();
+      seen.push([event, payload]);
+    });
+    emitter.emit('count', 3);
+    emitter.emit('ready');
+    off();
+    emitter.emit('count', 4);
+    expect(seen).toEqual([
+      ['count', 3],
+      ['ready', undefined],
+    ]);
+  });
+
+  it('warns once when an event exceeds its listener limit', () => {
+    const onLeak = mock();
+    const emitter = createEmitter<Events>({
+      maxListeners: 2,
+      listenerLimits: { ready: 1 },
+      onLeak,
+    });
+    for (let i = 0; i < 4; i++)
+      emitter.on('count', () => {});
+    expect(onLeak).toHaveBeenCalledTimes(1);
+    expect(onLeak).toHaveBeenCalledWith('count', 3);
+    emitter.on('ready', () => {});
+    emitter.on('ready', () => {});
+    expect(onLeak).toHaveBeenLastCalledWith('ready', 2);
+  });
+
+  it('propagates listener errors by default', () => {
+    const emitter = createEmitter<Events>();
+    const after = mock();
+    emitter.on('count', () => {
+      throw new Error('boom');
+    });
+    emitter.on('count', after);
+    expect(() => emitter.emit('count', 1)).toThrow('boom');
+    expect(after).not.toHaveBeenCalled();
+  });
+
+  it('isolates listener errors when asked', () => {
+    const onError = mock();
+    const emitter = createEmitter<Events>({
+      isolateErrors: true,
+      onError,
+    });
+    const after = mock();
+    const error = new Error('boom');
+    emitter.on('count', () => {
+      throw error;
+    });
+    emitter.on('count', after);
+    expect(emitter.emit('count', 1)).toBe(true);
+    expect(after).toHaveBeenCalledWith(1);
+    expect(onError).toHaveBeenCalledWith(error, 'count');
+  });
+
+  it('clears listeners', () => {
+    const emitter = createEmitter<Events>();
+    emitter.on('count', () => {});
+    emitter.on('ready', () => {});
+    emitter.onAny(() => {});
+    expect(emitter.listenerCount()).toBe(3);
+    emitter.clear('count');
+    expect(emitter.listenerCount()).toBe(2);
+    emitter.clear();
+    expect(emitter.listenerCount()).toBe(0);
+  });
+});
+
+describe('waitFor', () => {
+  it('resolves with the next matching payload', async () => {
+    const emitter = createEmitter<Events>();
+    const pending = emitter.waitFor('count', {
+      filter: n => n > 1,
+    });
+    emitter.emit('count', 1);
+    emitter.emit('count', 2);
+    expect(await pending).toBe(2);
+    expect(emitter.listenerCount('count')).toBe(0);
+  });
+
+  it('rejects with a TimeoutError', async () => {
+    const clock = createFakeClock();
+    const emitter = createEmitter<Events>({ clock });
+    const pending = emitter
+      .waitFor('ready', { timeout: 500 })
+      .catch(e => e);
+    await clock.tick(500);
+    const error = await pending;
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.timeoutMs).toBe(500);
+    expect(emitter.listenerCount()).toBe(0);
+  });
+
+  it('rejects with the abort reason', async () => {
+    const emitter = createEmitter<Events>();
+    const controller = new AbortController();
+    const pending = emitter.waitFor('ready', {
+      signal: controller.signal,
+    });
+    controller.abort(new Error('stop'));
+    await expect(pending).rejects.toThrow('stop');
+    expect(emitter.listenerCount()).toBe(0);
+    await expect(
+      emitter.waitFor('ready', {
+        signal: AbortSignal.abort(),
+      }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
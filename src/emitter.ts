@@ -0,0 +1,280 @@
+import { abortReason } from './abort.js';
+import {
+  type Clock,
+  systemClock,
+  type TimerHandle,
+} from './clock.js';
+import {
+  type Duration,
+  toMilliseconds,
+} from './duration.js';
+import { TimeoutError } from './promise.js';
+
+/**
+ * Maps event names to payload types. Use `undefined` for events without a
+ * payload.
+ */
+export type EventMap = Record<string, unknown>;
+
+export type Listener<T> = (payload: T) => void;
+
+/**
+ * Receives every event. The arguments are a union per event, so
+ * checking `event` narrows `payload`.
+ */
+export type WildcardListener<E extends EventMap> = (
+  ...args: {
+    [K in keyof E]: [event: K, payload: E[K]];
+  }[keyof E]
+) => void;
+
+/** Payload arguments for `emit`; optional for `void` events. */
+type PayloadArgs<T> = undefined extends T
+  ? [payload?: T]
+  : [payload: T];
+
+export interface EmitterOptions<E extends EventMap> {
+  /**
+   * Listeners per event before a leak warning. Defaults to 10;
+   * `Infinity` disables the warning.
+   */
+  maxListeners?: number;
+  /** Per-event overrides for `maxListeners`. */
+  listenerLimits?: { [K in keyof E]?: number };
+  /** Called once per event that exceeds its limit. */
+  onLeak?: (event: keyof E, count: number) => void;
+  /**
+   * Catch listener errors so the remaining listeners still run.
+   * Defaults to `false`, where the first error propagates from `emit`.
+   */
+  isolateErrors?: boolean;
+  /** Receives isolated listener errors. Defaults to `console.error`. */
+  onError?: (error: unknown, event: keyof E) => void;
+  /** Timer source for `waitFor` timeouts. Defaults to `systemClock`. */
+  clock?: Clock;
+}
+
+export interface WaitForOptions<T> {
+  /** Rejects with the abort reason and removes the listener. */
+  signal?: AbortSignal;
+  /** Rejects with a `TimeoutError` after this long. */
+  timeout?: Duration;
+  /** Only resolve for payloads that pass. */
+  filter?: (payload: T) => boolean;
+}
+
+/**
+ * An event emitter whose event names and payloads are checked against
+ * `E`.
+ */
+export interface Emitter<E extends EventMap> {
+  /** Adds a listener and returns a function that removes it. */
+  on<K extends keyof E>(
+    event: K,
+    listener: Listener<E[K]>,
+  ): () => void;
+  /** Adds a listener that is removed after its first call. */
+  once<K extends keyof E>(
+    event: K,
+    listener: Listener<E[K]>,
+  ): () => void;
+  /** Removes the first registration of `listener` for `event`. */
+  off<K extends keyof E>(
+    event: K,
+    listener: Listener<E[K]>,
+  ): void;
+  /** Calls the listeners in order. Returns whether there were any. */
+  emit<K extends keyof E>(
+    event: K,
+    ...args: PayloadArgs<E[K]>
+  ): boolean;
+  /** Adds a listener for every event, called after named ones. */
+  onAny(listener: WildcardListener<E>): () => void;
+  offAny(listener: WildcardListener<E>): void;
+  /** Resolves with the payload of the next matching `event`. */
+  waitFor<K extends keyof E>(
+    event: K,
+    options?: WaitForOptions<E[K]>,
+  ): Promise<E[K]>;
+  /** Listeners for `event`, or for all events including wildcards. */
+  listenerCount(event?: keyof E): number;
+  /** Removes the listeners for `event`, or every listener. */
+  clear(event?: keyof E): void;
+}
+
+interface Registration {
+  listener: Listener<never>;
+  once: boolean;
+}
+
+const defaultLeakWarning = (
+  event: PropertyKey,
+  count: number,
+) =>
+  console.warn(
+    `Possible listener leak: ${count} listeners for "${String(event)}"`,
+  );
+
+const defaultErrorHandler = (
+  error: unknown,
+  event: PropertyKey,
+) =>
+  console.error(
+    `Listener for "${String(event)}" threw:`,
+    error,
+  );
+
+/**
+ * Creates a typed event emitter. Has no dependencies, so it runs on
+ * Bun, Node and in the browser.
+ */
+export const createEmitter = <E extends EventMap>({
+  maxListeners = 10,
+  listenerLimits = {},
+  onLeak = defaultLeakWarning,
+  isolateErrors = false,
+  onError = defaultErrorHandler,
+  clock = systemClock,
+}: EmitterOptions<E> = {}): Emitter<E> => {
+  const listeners = new Map<keyof E, Registration[]>();
+  const wildcards: WildcardListener<E>[] = [];
+  const warned = new Set<keyof E>();
+
+  const call = (event: keyof E, fn: () => void) => {
+    if (!isolateErrors) return fn();
+    try {
+      fn();
+    } catch (error) {
+      onError(error, event);
+    }
+  };
+
+  const add = (
+    event: keyof E,
+    listener: Listener<never>,
+    once: boolean,
+  ) => {
+    const registrations = listeners.get(event) ?? [];
+    const registration = { listener, once };
+    registrations.push(registration);
+    listeners.set(event, registrations);
+    const limit = listenerLimits[event] ?? maxListeners;
+    if (
+      registrations.length > limit &&
+      !warned.has(event)
+    ) {
+      warned.add(event);
+      onLeak(event, registrations.length);
+    }
+    return () => remove(event, r => r === registration);
+  };
+
+  /** Removes the first registration for `event` that matches. */
+  const remove = (
+    event: keyof E,
+    matches: (registration: Registration) => boolean,
+  ) => {
+    const registrations = listeners.get(event);
+    const index = registrations?.findIndex(matches) ?? -1;
+    if (index === -1) return;
+    registrations?.splice(index, 1);
+    if (registrations?.length === 0) {
+      listeners.delete(event);
+      warned.delete(event);
+    }
+  };
+
+  const emitter: Emitter<E> = {
+    on: (event, listener) => add(event, listener, false),
+    once: (event, listener) => add(event, listener, true),
+    off: (event, listener) =>
+      remove(event, r => r.listener === listener),
+    emit(event, ...[payload]) {
+      // Snapshot so listeners can add or remove others safely.
+      const registrations = [
+        ...(listeners.get(event) ?? []),
+      ];
+      const anys = [...wildcards];
+      for (const registration of registrations) {
+        if (registration.once)
+          remove(event, r => r === registration);
+        call(event, () =>
+          (registration.listener as Listener<unknown>)(
+            payload,
+          ),
+        );
+      }
+      for (const listener of anys)
+        call(event, () =>
+          (
+            listener as (
+              event: keyof E,
+              payload: unknown,
+            ) => void
+          )(event, payload),
+        );
+      return registrations.length + anys.length > 0;
+    },
+    onAny(listener) {
+      wildcards.push(listener);
+      return () => emitter.offAny(listener);
+    },
+    offAny(listener) {
+      const index = wildcards.indexOf(listener);
+      if (index !== -1) wildcards.splice(index, 1);
+    },
+    waitFor(event, { signal, timeout, filter } = {}) {
+      return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(abortReason(signal));
+          return;
+        }
+        let timer: TimerHandle;
+        const cleanup = () => {
+          off();
+          clock.clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        };
+        const onAbort = () => {
+          cleanup();
+          reject(abortReason(signal as AbortSignal));
+        };
+        const off = emitter.on(event, payload => {
+          if (filter && !filter(payload)) return;
+          cleanup();
+          resolve(payload);
+        });
+        if (timeout !== undefined) {
+          const ms = toMilliseconds(timeout);
+          timer = clock.setTimeout(() => {
+            cleanup();
+            reject(new TimeoutError(ms));
+          }, ms);
+        }
+        signal?.addEventListener('abort', onAbort, {
+          once: true,
+        });
+      });
+    },
+    listenerCount(event) {
+      if (event !== undefined)
+        return listeners.get(event)?.length ?? 0;
+      let count = wildcards.length;
+      for (const registrations of listeners.values())
+        count += registrations.length;
+      return count;
+    },
+    clear(event) {
+      if (event !== undefined) {
+        listeners.delete(event);
+        warned.delete(event);
+        return;
+      }
+      listeners.clear();
+      warned.clear();
+      wildcards.length = 0;
+    },
+  };
+
+  return emitter;
+};
@@ -0,0 +1,129 @@
+import {
+  describe,
+  expect,
+  expectTypeOf,
+  it,
+} from 'bun:test';
+import { EnvError, loadEnv } from './env.js';
+
+const schema = {
+  PORT: { type: 'number', default: '3000' },
+  DEBUG: { type: 'boolean', default: 'false' },
+  LOG_LEVEL: {
+    type: 'enum',
+    values: ['debug', 'info', 'warn'],
+    default: 'info',
+  },
+  API_URL: { type: 'url' },
+  TIMEOUT: { type: 'duration', default: '30s' },
+  ORIGINS: { type: 'list', optional: true },
+  NAME: { type: 'string', optional: true },
+} as const;
+
+describe('loadEnv', () => {
+  it('coerces values and applies defaults', () => {
+    const config = loadEnv(schema, {
+      env: {
+        API_URL: 'https://api.example.com/v1',
+        DEBUG: 'yes',
+        TIMEOUT: '1m30s',
+        ORIGINS: 'a.com, b.com,',
+      },
+    });
+    expect(config.PORT).toBe(3000);
+    expect(config.DEBUG).toBe(true);
+    expect(config.LOG_LEVEL).toBe('info');
+    expect(config.API_URL.host).toBe('api.example.com');
+    expect(config.TIMEOUT).toBe(90_000);
+    expect(config.ORIGINS).toEqual(['a.com', 'b.com']);
+    expect(config.NAME).toBeUndefined();
+  });
+
+  it('infers the config type from the schema', () => {
+    const config = loadEnv(schema, {
+      env: { API_URL: 'http://localhost' },
+    });
+    expectTypeOf(config.PORT).toEqualTypeOf<number>();
+    expectTypeOf(config.LOG_LEVEL).toEqualTypeOf<
+      'debug' | 'info' | 'warn'
+    >();
+    expectTypeOf(config.API_URL).toEqualTypeOf<URL>();
+    expectTypeOf(config.ORIGINS).toEqualTypeOf<
+      readonly string[] | undefined
+    >();
+  });
+
+  it('returns a frozen config', () => {
+    const config = loadEnv(schema, {
+      env: { API_URL: 'http://localhost', ORIGINS: 'a' },
+    });
+    expect(Object.isFrozen(config)).toBe(true);
+    expect(Object.isFrozen(config.ORIGINS)).toBe(true);
+  });
+
+  it('treats empty values as unset', () => {
+    const config = loadEnv(schema, {
+      env: { API_URL: 'http://localhost', PORT: '' },
+    });
+    expect(config.PORT).toBe(3000);
+  });
+
+  it('reports every missing or invalid variable at once', () => {
+    const error = (() => {
+      try {
+        loadEnv(schema, {
+          env: {
+            PORT: 'abc',
+            DEBUG: 'maybe',
+            LOG_LEVEL: 'trace',
+            TIMEOUT: '5 minutes',
+          },
+        });
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(error).toBeInstanceOf(EnvError);
+    const { issues, message } = error as EnvError;
+    expect(issues).toEqual([
+      {
+        name: 'PORT',
+        message: 'expected a number, got "abc"',
+      },
+      {
+        name: 'DEBUG',
+        message: 'expected a boolean, got "maybe"',
+      },
+      {
+        name: 'LOG_LEVEL',
+        message:
+          'expected one of debug, info, warn, got "trace"',
+      },
+      { name: 'API_URL', message: 'is required' },
+      {
+        name: 'TIMEOUT',
+        message:
+          'expected a duration such as 500ms or 1h30m, got "5 minutes"',
+      },
+    ]);
+    expect(message).toContain('  - API_URL: is required');
+  });
+
+  it('rejects malformed URLs', () => {
+    expect(() =>
+      loadEnv(
+        { API_URL: { type: 'url' } },
+        { env: { API_URL: 'not a url' } },
+      ),
+    ).toThrow('API_URL: expected a URL');
+  });
+
+  it('reads process.env by default', () => {
+    process.env.LOAD_ENV_TEST_FLAG = 'on';
+    const config = loadEnv({
+      LOAD_ENV_TEST_FLAG: { type: 'boolean' },
+    });
+    delete process.env.LOAD_ENV_TEST_FLAG;
+    expect(config.LOAD_ENV_TEST_FLAG).toBe(true);
+  });
+});
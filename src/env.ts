@@ -0,0 +1,184 @@
+import { parseDuration } from './duration.js';
+import { err, ok, type Result } from './result.js';
+
+/**
+ * How a variable is coerced.
+ *
+ * - `number` accepts anything `Number` parses, except blanks.
+ * - `boolean` accepts true/false, 1/0, yes/no and on/off.
+ * - `url` yields a `URL`.
+ * - `duration` accepts milliseconds or units like `1h30m`, yielding
+ *   milliseconds.
+ * - `list` splits on `separator` (default `,`) and trims each item.
+ * - `enum` requires one of `values`.
+ */
+export type EnvVarType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'url'
+  | 'duration'
+  | 'list'
+  | 'enum';
+
+interface EnvVarBase {
+  description?: string;
+  /** Raw value used when the variable is unset or empty. */
+  default?: string;
+  /** Allow the variable to be missing without a default. */
+  optional?: boolean;
+}
+
+export type EnvVarSpec = EnvVarBase &
+  (
+    | { type: Exclude<EnvVarType, 'list' | 'enum'> }
+    | { type: 'list'; separator?: string }
+    | { type: 'enum'; values: readonly string[] }
+  );
+
+export type EnvSchema = Record<string, EnvVarSpec>;
+
+type EnvValue<S extends EnvVarSpec> = S extends {
+  type: 'enum';
+  values: readonly (infer V)[];
+}
+  ? V
+  : {
+      string: string;
+      number: number;
+      boolean: boolean;
+      url: URL;
+      duration: number;
+      list: readonly string[];
+      enum: string;
+    }[S['type']];
+
+/**
+ * Typed config produced by `loadEnv` for schema `S`.
+ */
+export type EnvConfig<S extends EnvSchema> = {
+  readonly [K in keyof S]: S[K] extends { default: string }
+    ? EnvValue<S[K]>
+    : S[K] extends { optional: true }
+      ? EnvValue<S[K]> | undefined
+      : EnvValue<S[K]>;
+};
+
+/**
+ * A missing or invalid variable found by `loadEnv`.
+ */
+export interface EnvIssue {
+  name: string;
+  message: string;
+}
+
+/**
+ * Thrown by `loadEnv` with every problem found, not just the first.
+ */
+export class EnvError extends Error {
+  override readonly name = 'EnvError';
+
+  constructor(readonly issues: EnvIssue[]) {
+    super(
+      `Invalid environment:\n${issues
+        .map(issue => `  - ${issue.name}: ${issue.message}`)
+        .join('\n')}`,
+    );
+  }
+}
+
+export interface LoadEnvOptions {
+  /** Variables to read. Defaults to `process.env`. */
+  env?: Record<string, string | undefined>;
+}
+
+const BOOLEANS: Record<string, boolean> = {
+  true: true,
+  false: false,
+  '1': true,
+  '0': false,
+  yes: true,
+  no: false,
+  on: true,
+  off: false,
+};
+
+const coerce = (
+  spec: EnvVarSpec,
+  raw: string,
+): Result<unknown, string> => {
+  const invalid = (expected: string) =>
+    err(`expected ${expected}, got "${raw}"`);
+  switch (spec.type) {
+    case 'number': {
+      const value = Number(raw);
+      return raw.trim() && !Number.isNaN(value)
+        ? ok(value)
+        : invalid('a number');
+    }
+    case 'boolean': {
+      const value = BOOLEANS[raw.trim().toLowerCase()];
+      return value === undefined
+        ? invalid('a boolean')
+        : ok(value);
+    }
+    case 'url':
+      return URL.canParse(raw)
+        ? ok(new URL(raw))
+        : invalid('a URL');
+    case 'duration':
+      try {
+        return ok(parseDuration(raw));
+      } catch {
+        return invalid('a duration such as 500ms or 1h30m');
+      }
+    case 'list':
+      return ok(
+        Object.freeze(
+          raw
+            .split(spec.separator ?? ',')
+            .map(item => item.trim())
+            .filter(Boolean),
+        ),
+      );
+    case 'enum':
+      return spec.values.includes(raw)
+        ? ok(raw)
+        : invalid(`one of ${spec.values.join(', ')}`);
+    default:
+      return ok(raw);
+  }
+};
+
+/**
+ * Validates, coerces and defaults environment variables into a frozen,
+ * typed config. Empty values count as unset. Throws an `EnvError`
+ * listing every missing or invalid variable.
+ */
+export const loadEnv = <const S extends EnvSchema>(
+  schema: S,
+  { env = process.env }: LoadEnvOptions = {},
+): EnvConfig<S> => {
+  const config: Record<string, unknown> = {};
+  const issues: EnvIssue[] = [];
+
+  for (const [name, spec] of Object.entries(schema)) {
+    const raw = env[name] || spec.default;
+    if (raw === undefined) {
+      if (spec.optional) config[name] = undefined;
+      else issues.push({ name, message: 'is required' });
+      continue;
+    }
+    coerce(spec, raw).match({
+      ok: value => {
+        config[name] = value;
+      },
+      err: message => {
+        issues.push({ name, message });
+      },
+    });
+  }
+
+  if (issues.length > 0) throw new EnvError(issues);
+  return Object.freeze(config) as EnvConfig<S>;
+};
@@ -0,0 +1,159 @@
+import {
+  describe,
+  expect,
+  expectTypeOf,
+  it,
+} from 'bun:test';
+import {
+  countBy,
+  groupBy,
+  groupByMap,
+  groupByNested,
+  keyBy,
+  partition,
+  sumBy,
+} from './group.js';
+
+interface Order {
+  id: number;
+  region: 'eu' | 'us';
+  status: 'open' | 'paid';
+  total: number;
+}
+
+const orders: Order[] = [
+  { id: 1, region: 'eu', status: 'paid', total: 10 },
+  { id: 2, region: 'us', status: 'open', total: 25 },
+  { id: 3, region: 'eu', status: 'open', total: 5 },
+  { id: 4, region: 'eu', status: 'paid', total: 40 },
+];
+
+describe('groupBy', () => {
+  it('types literal keys as a partial record', () => {
+    const byRegion = groupBy(orders, o => o.region);
+    expectTypeOf(byRegion).toEqualTypeOf<
+      Partial<Record<'eu' | 'us', Order[]>>
+    >();
+    expect(byRegion.eu?.map(o => o.id)).toEqual([1, 3, 4]);
+    expect(byRegion.us?.map(o => o.id)).toEqual([2]);
+  });
+
+  it('consumes any iterable and passes the index', () => {
+    const result = groupBy(
+      new Set(['a', 'b', 'c']),
+      (_, i) => (i % 2 === 0 ? 'even' : 'odd'),
+    );
+    expect(result).toEqual({
+      even: ['a', 'c'],
+      odd: ['b'],
+    });
+  });
+
+  it('keeps prototype keys as own properties', () => {
+    const result = groupBy(['x'], () => '__proto__');
+    expect(Object.hasOwn(result, '__proto__')).toBe(true);
+    expect(Object.getPrototypeOf(result)).toBe(
+      Object.prototype,
+    );
+  });
+});
+
+describe('groupByMap', () => {
+  it('groups by non-string keys', () => {
+    const even = { parity: 'even' };
+    const odd = { parity: 'odd' };
+    const result = groupByMap([1, 2, 3, 4], n =>
+      n % 2 === 0 ? even : odd,
+    );
+    expect([...result.keys()]).toEqual([odd, even]);
+    expect(result.get(even)).toEqual([2, 4]);
+    expect(result.get(odd)).toEqual([1, 3]);
+  });
+
+  it('keeps numeric keys distinct from strings', () => {
+    const result = groupByMap([1, '1', 1], v => v);
+    expect(result.get(1)).toEqual([1, 1]);
+    expect(result.get('1')).toEqual(['1']);
+  });
+});
+
+describe('groupByNested', () => {
+  it('nests one level per key function', () => {
+    const result = groupByNested(orders, [
+      o => o.region,
+      o => o.status,
+    ]);
+    expect(result.eu?.paid?.map(o => o.id)).toEqual([1, 4]);
+    expect(result.eu?.open?.map(o => o.id)).toEqual([3]);
+    expect(result.us?.open?.map(o => o.id)).toEqual([2]);
+    expect(result.us?.paid).toBeUndefined();
+    expectTypeOf(result).toEqualTypeOf<
+      Partial<
+        Record<
+          'eu' | 'us',
+          Partial<Record<'open' | 'paid', Order[]>>
+        >
+      >
+    >();
+  });
+
+  it('returns the items when given no key functions', () => {
+    expect(groupByNested([1, 2], [])).toEqual([1, 2]);
+  });
+});
+
+describe('keyBy', () => {
+  it('indexes items with the last one winning', () => {
+    const byRegion = keyBy(orders, o => o.region);
+    expect(byRegion.eu?.id).toBe(4);
+    expect(keyBy(orders, o => o.id)[2]).toBe(orders[1]);
+  });
+});
+
+describe('countBy', () => {
+  it('counts items per key', () => {
+    expect(countBy(orders, o => o.status)).toEqual({
+      paid: 2,
+      open: 2,
+    });
+  });
+});
+
+describe('sumBy', () => {
+  it('sums values per key', () => {
+    expect(
+      sumBy(
+        orders,
+        o => o.region,
+        o => o.total,
+      ),
+    ).toEqual({ eu: 55, us: 25 });
+  });
+});
+
+describe('partition', () => {
+  it('splits items while keeping order', () => {
+    const [paid, rest] = partition(
+      orders,
+      o => o.status === 'paid',
+    );
+    expect(paid.map(o => o.id)).toEqual([1, 4]);
+    expect(rest.map(o => o.id)).toEqual([2, 3]);
+  });
+
+  it('narrows both halves with a type guard', () => {
+    const values: (string | number)[] = [1, 'a', 2];
+    const [strings, numbers] = partition(
+      values,
+      (v): v is string => typeof v === 'string',
+    );
+    expectTypeOf(strings).toEqualTypeOf<string[]>();
+    expectTypeOf(numbers).toEqualTypeOf<number[]>();
+    expect(strings).toEqual(['a']);
+    expect(numbers).toEqual([1, 2]);
+  });
+
+  it('returns empty halves for empty input', () => {
+    expect(partition([], () => true)).toEqual([[], []]);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Maps each item of an iterable to a key. Receives the item's index.
+ */
+export type KeyFn<T, K> = (item: T, index: number) => K;
+
+/**
+ * A record keyed by `K`. When `K` is a union of literals, not every key
+ * is guaranteed to be present, so the record is partial.
+ */
+export type KeyedRecord<
+  K extends PropertyKey,
+  V,
+> = string extends K
+  ? Record<K, V>
+  : number extends K
+    ? Record<K, V>
+    : Partial<Record<K, V>>;
+
+/**
+ * Nested groups produced by `groupByNested`, one level per key
+ * function.
+ */
+export type NestedGroups<
+  T,
+  K extends readonly PropertyKey[],
+> = K extends readonly [
+  infer Head extends PropertyKey,
+  ...infer Rest extends PropertyKey[],
+]
+  ? KeyedRecord<Head, NestedGroups<T, Rest>>
+  : T[];
+
+type NestedKeyFns<T, K extends readonly PropertyKey[]> = {
+  [I in keyof K]: KeyFn<T, K[I]>;
+};
+
+/**
+ * Folds items into one accumulator per key, keeping first-seen key
+ * order. Every aggregator in this module is built on it.
+ */
+const aggregate = <T, K, A>(
+  items: Iterable<T>,
+  keyFn: KeyFn<T, K>,
+  step: (acc: A | undefined, item: T) => A,
+): Map<K, A> => {
+  const result = new Map<K, A>();
+  let index = 0;
+  for (const item of items) {
+    const key = keyFn(item, index++);
+    result.set(key, step(result.get(key), item));
+  }
+  return result;
+};
+
+const collect = <T>(acc: T[] | undefined, item: T): T[] => {
+  if (!acc) return [item];
+  acc.push(item);
+  return acc;
+};
+
+// `Object.fromEntries` defines keys as own properties, so keys such as
+// `__proto__` cannot reach the prototype.
+const toRecord = <K extends PropertyKey, V>(
+  map: Map<K, V>,
+): KeyedRecord<K, V> =>
+  Object.fromEntries(map) as KeyedRecord<K, V>;
+
+/**
+ * Groups items by a key of any type, such as a number, an object or a
+ * composite key built by the caller. Keys are compared with
+ * `SameValueZero`, like `Map`.
+ */
+export const groupByMap = <T, K>(
+  items: Iterable<T>,
+  keyFn: KeyFn<T, K>,
+): Map<K, T[]> => aggregate(items, keyFn, collect<T>);
+
+/**
+ * Groups items by a key returned from the callback.
+ */
+export const groupBy = <T, K extends PropertyKey>(
+  items: Iterable<T>,
+  keyFn: KeyFn<T, K>,
+): KeyedRecord<K, T[]> =>
+  toRecord(groupByMap(items, keyFn));
+
+/**
+ * Groups items by several keys, one level of nesting per key function.
+ */
+export const groupByNested = <
+  T,
+  const K extends readonly PropertyKey[],
+>(
+  items: Iterable<T>,
+  keyFns: NestedKeyFns<T, K>,
+): NestedGroups<T, K> => {
+  const [keyFn, ...rest] = keyFns as readonly KeyFn<
+    T,
+    PropertyKey
+  >[];
+  if (!keyFn) return [...items] as NestedGroups<T, K>;
+  const groups = groupByMap(items, keyFn);
+  const result = new Map<PropertyKey, unknown>();
+  for (const [key, group] of groups)
+    result.set(key, groupByNested(group, rest));
+  return toRecord(result) as NestedGroups<T, K>;
+};
+
+/**
+ * Indexes items by key. When several items share a key, the last one
+ * wins.
+ */
+export const keyBy = <T, K extends PropertyKey>(
+  items: Iterable<T>,
+  keyFn: KeyFn<T, K>,
+): KeyedRecord<K, T> =>
+  toRecord(aggregate(items, keyFn, (_, item: T) => item));
+
+/**
+ * Counts items per key.
+ */
+export const countBy = <T, K extends PropertyKey>(
+  items: Iterable<T>,
+  keyFn: KeyFn<T, K>,
+): KeyedRecord<K, number> =>
+  toRecord(
+    aggregate(
+      items,
+      keyFn,
+      (acc: number | undefined) => (acc ?? 0) + 1,
+    ),
+  );
+
+/**
+ * Sums `valueFn` over the items of each key.
+ */
+export const sumBy = <T, K extends PropertyKey>(
+  items: Iterable<T>,
+  keyFn: KeyFn<T, K>,
+  valueFn: (item: T) => number,
+): KeyedRecord<K, number> =>
+  toRecord(
+    aggregate(
+      items,
+      keyFn,
+      (acc: number | undefined, item: T) =>
+        (acc ?? 0) + valueFn(item),
+    ),
+  );
+
+interface Partition {
+  <T, S extends T>(
+    items: Iterable<T>,
+    predicate: (item: T, index: number) => item is S,
+  ): [S[], Exclude<T, S>[]];
+  <T>(
+    items: Iterable<T>,
+    predicate: (item: T, index: number) => boolean,
+  ): [T[], T[]];
+}
+
+/**
+ * Splits items into those that match the predicate and those that
+ * don't, keeping their order. Type guards narrow both halves.
+ */
+export const partition = (<T>(
+  items: Iterable<T>,
+  predicate: (item: T, index: number) => boolean,
+): [T[], T[]] => {
+  const groups = groupByMap(items, predicate);
+  return [groups.get(true) ?? [], groups.get(false) ?? []];
+}) as Partition;
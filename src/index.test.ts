@@ -1,17 +1,21 @@
 import { describe, expect, it, mock } from 'bun:test';
 import {
   chunk,
+  chunkSafe,
   clamp,
+  clampSafe,
+  createFakeClock,
   debounce,
   deepClone,
   groupBy,
   omit,
   pick,
   randomInt,
+  randomIntSafe,
   retry,
   sleep,
   unique,
-} from './index';
+} from './index.js';
 
 describe('clamp', () => {
   it('returns the value when within range', () => {
@@ -207,23 +211,25 @@ describe('retry', () => {
 
 describe('debounce', () => {
   it('delays function execution', async () => {
+    const clock = createFakeClock();
     const fn = mock(() => {});
-    const debounced = debounce(fn, 50);
+    const debounced = debounce(fn, 50, { clock });
     debounced();
     expect(fn).not.toHaveBeenCalled();
-    await sleep(80);
+    await clock.tick(50);
     expect(fn).toHaveBeenCalledTimes(1);
   });
 
   it('resets timer on subsequent calls', async () => {
+    const clock = createFakeClock();
     const fn = mock(() => {});
-    const debounced = debounce(fn, 50);
+    const debounced = debounce(fn, 50, { clock });
     debounced();
-    await sleep(30);
+    await clock.tick(30);
     debounced();
-    await sleep(30);
+    await clock.tick(30);
     expect(fn).not.toHaveBeenCalled();
-    await sleep(50);
+    await clock.tick(20);
     expect(fn).toHaveBeenCalledTimes(1);
   });
 });
@@ -273,4 +279,69 @@ describe('sleep', () => {
     const elapsed = Date.now() - start;
     expect(elapsed).toBeGreaterThanOrEqual(40);
   });
+
+  it('resolves on a fake clock once time is advanced', async () => {
+    const clock = createFakeClock();
+    let done = false;
+    sleep(1000, { clock }).then(() => {
+      done = true;
+    });
+    await clock.tick(999);
+    expect(done).toBe(false);
+    await clock.tick(1);
+    expect(done).toBe(true);
+  });
+
+  it('rejects with an AbortError when aborted', async () => {
+    const clock = createFakeClock();
+    const controller = new AbortController();
+    const pending = sleep(1000, {
+      clock,
+      signal: controller.signal,
+    });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+    expect(clock.pending).toBe(0);
+  });
+
+  it('rejects immediately for an aborted signal', async () => {
+    await expect(
+      sleep(1000, { signal: AbortSignal.abort() }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('safe variants', () => {
+  it('clampSafe returns the value or the RangeError', () => {
+    expect(clampSafe(20, 0, 10).unwrapOr(-1)).toBe(10);
+    const result = clampSafe(5, 10, 0);
+    expect(result.ok).toBe(false);
+    if (!result.ok)
+      expect(result.error).toBeInstanceOf(RangeError);
+  });
+
+  it('randomIntSafe returns validation errors', () => {
+    expect(randomIntSafe(1, 1).unwrapOr(0)).toBe(1);
+    expect(randomIntSafe(1.5, 2)).toMatchObject({
+      ok: false,
+      error: expect.any(TypeError),
+    });
+    expect(randomIntSafe(2, 1)).toMatchObject({
+      ok: false,
+      error: expect.any(RangeError),
+    });
+  });
+
+  it('chunkSafe returns the chunks or the RangeError', () => {
+    expect(chunkSafe([1, 2, 3], 2).unwrapOr([])).toEqual([
+      [1, 2],
+      [3],
+    ]);
+    expect(chunkSafe([1], 0)).toMatchObject({
+      ok: false,
+      error: expect.any(RangeError),
+    });
+  });
 });
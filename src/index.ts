@@ -1,17 +1,28 @@
-/**
- * Clamps a number between a minimum and maximum value.
- */
-export const clamp = (
-  value: number,
-  min: number,
-  max: number,
-): number => {
-  if (min > max)
-    throw new RangeError(
-      'min must be less than or equal to max',
-    );
-  return Math.min(Math.max(value, min), max);
-};
+import { pipe } from './pipe.js';
+import { defaultRandom } from './random.js';
+import { type Result, tryCatch } from './result.js';
+
+export * from './case.js';
+export * from './circuit-breaker.js';
+export * from './clock.js';
+export * from './concurrency.js';
+export * from './debounce.js';
+export * from './deep.js';
+export * from './duration.js';
+export * from './emitter.js';
+export * from './env.js';
+export * from './group.js';
+export * from './lru-cache.js';
+export * from './memoize.js';
+export * from './numeric.js';
+export * from './path.js';
+export * from './pipe.js';
+export * from './promise.js';
+export * from './random.js';
+export * from './rate-limiter.js';
+export * from './result.js';
+export * from './retry.js';
+export * from './set-ops.js';
 
 /**
  * Generates a random integer between min (inclusive) and max (inclusive).
@@ -19,37 +30,20 @@ export const clamp = (
 export const randomInt = (
   min: number,
   max: number,
-): number => {
-  if (!Number.isInteger(min) || !Number.isInteger(max))
-    throw new TypeError('min and max must be integers');
-  if (min > max)
-    throw new RangeError(
-      'min must be less than or equal to max',
-    );
-  return Math.floor(Math.random() * (max - min + 1)) + min;
-};
-
-/**
- * Deep clones a JSON-serializable value.
- */
-export const deepClone = <T>(value: T): T =>
-  structuredClone(value);
+): number => defaultRandom.int(min, max);
 
 /**
- * Groups an array of items by a key returned from the callback.
+ * Like `randomInt`, but returns the validation error instead of
+ * throwing it.
  */
-export const groupBy = <T>(
-  items: T[],
-  keyFn: (item: T) => string,
-): Record<string, T[]> => {
-  const result: Record<string, T[]> = {};
-  for (const item of items) {
-    const key = keyFn(item);
-    if (!result[key]) result[key] = [];
-    result[key].push(item);
-  }
-  return result;
-};
+export const randomIntSafe = (
+  min: number,
+  max: number,
+): Result<number, RangeError | TypeError> =>
+  tryCatch(
+    () => randomInt(min, max),
+    error => error as RangeError | TypeError,
+  );
 
 /**
  * Returns a new array with only unique elements, using an optional key function.
@@ -57,104 +51,22 @@ export const groupBy = <T>(
 export const unique = <T>(
   items: T[],
   keyFn?: (item: T) => unknown,
-): T[] => {
-  if (!keyFn) return [...new Set(items)];
-  const seen = new Set<unknown>();
-  return items.filter(item => {
-    const key = keyFn(item);
-    if (seen.has(key)) return false;
-    seen.add(key);
-    return true;
-  });
-};
+): T[] => pipe(items).unique(keyFn).toArray();
 
 /**
  * Chunks an array into smaller arrays of the given size.
  */
-export const chunk = <T>(
-  items: T[],
-  size: number,
-): T[][] => {
-  if (size < 1)
-    throw new RangeError('size must be at least 1');
-  const result: T[][] = [];
-  for (let i = 0; i < items.length; i += size) {
-    result.push(items.slice(i, i + size));
-  }
-  return result;
-};
+export const chunk = <T>(items: T[], size: number): T[][] =>
+  pipe(items).chunk(size).toArray();
 
 /**
- * Retries an async function up to `retries` times with a delay between attempts.
+ * Like `chunk`, but returns the `RangeError` instead of throwing it.
  */
-export const retry = async <T>(
-  fn: () => Promise<T>,
-  retries = 3,
-  delayMs = 100,
-): Promise<T> => {
-  let lastError: unknown;
-  for (let attempt = 0; attempt <= retries; attempt++) {
-    try {
-      return await fn();
-    } catch (err) {
-      lastError = err;
-      if (attempt < retries)
-        await new Promise(r => setTimeout(r, delayMs));
-    }
-  }
-  throw lastError;
-};
-
-/**
- * Creates a debounced version of a function.
- */
-export const debounce = <
-  T extends (...args: unknown[]) => void,
->(
-  fn: T,
-  delayMs: number,
-): ((...args: Parameters<T>) => void) => {
-  let timer: ReturnType<typeof setTimeout> | undefined;
-  return (...args: Parameters<T>) => {
-    clearTimeout(timer);
-    timer = setTimeout(() => fn(...args), delayMs);
-  };
-};
-
-/**
- * Picks specified keys from an object.
- */
-export const pick = <
-  T extends Record<string, unknown>,
-  K extends keyof T,
->(
-  obj: T,
-  keys: K[],
-): Pick<T, K> => {
-  const result = {} as Pick<T, K>;
-  for (const key of keys) {
-    if (key in obj) result[key] = obj[key];
-  }
-  return result;
-};
-
-/**
- * Omits specified keys from an object.
- */
-export const omit = <
-  T extends Record<string, unknown>,
-  K extends keyof T,
->(
-  obj: T,
-  keys: K[],
-): Omit<T, K> => {
-  const result = { ...obj };
-  for (const key of keys) delete result[key];
-  return result as Omit<T, K>;
-};
-
-/**
- * Sleeps for the given number of milliseconds.
- */
-export const sleep = (ms: number): Promise<void> =>
-  new Promise(r => setTimeout(r, ms));
+export const chunkSafe = <T>(
+  items: T[],
+  size: number,
+): Result<T[][], RangeError> =>
+  tryCatch(
+    () => chunk(items, size),
+    error => error as RangeError,
+  );
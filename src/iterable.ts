@@ -0,0 +1,10 @@
+/**
+ * Whether `source` is async iterable. Safe for strings and other
+ * primitives, where `in` would throw.
+ */
+export const isAsyncIterable = <T>(
+  source: Iterable<T> | AsyncIterable<T>,
+): source is AsyncIterable<T> =>
+  typeof (source as Partial<AsyncIterable<T>>)[
+    Symbol.asyncIterator
+  ] === 'function';
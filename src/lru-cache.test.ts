@@ -0,0 +1,115 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { createFakeClock } from './clock.js';
+import { LRUCache } from './lru-cache.js';
+
+describe('LRUCache', () => {
+  it('gets, sets and deletes values', () => {
+    const cache = new LRUCache<string, number>();
+    cache.set('a', 1).set('b', 2);
+    expect(cache.get('a')).toBe(1);
+    expect(cache.has('b')).toBe(true);
+    expect(cache.delete('b')).toBe(true);
+    expect(cache.delete('b')).toBe(false);
+    expect(cache.size).toBe(1);
+  });
+
+  it('evicts the least recently used entry', () => {
+    const onEvict = mock(() => {});
+    const cache = new LRUCache<string, number>({
+      maxSize: 2,
+      onEvict,
+    });
+    cache.set('a', 1).set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+    expect([...cache.keys()]).toEqual(['a', 'c']);
+    expect(onEvict).toHaveBeenCalledWith(
+      'b',
+      2,
+      'capacity',
+    );
+  });
+
+  it('peeks without changing recency or stats', () => {
+    const cache = new LRUCache<string, number>({
+      maxSize: 2,
+    });
+    cache.set('a', 1).set('b', 2);
+    expect(cache.peek('a')).toBe(1);
+    cache.set('c', 3);
+    expect(cache.has('a')).toBe(false);
+    expect(cache.stats()).toMatchObject({
+      hits: 0,
+      misses: 0,
+    });
+  });
+
+  it('expires entries after their ttl', async () => {
+    const clock = createFakeClock();
+    const onEvict = mock(() => {});
+    const cache = new LRUCache<string, number>({
+      ttlMs: 100,
+      clock,
+      onEvict,
+    });
+    cache.set('a', 1);
+    cache.set('b', 2, { ttlMs: 500 });
+    await clock.tick(100);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toBe(2);
+    expect(onEvict).toHaveBeenCalledWith('a', 1, 'expired');
+    expect(cache.stats().expirations).toBe(1);
+  });
+
+  it('prunes expired entries', async () => {
+    const clock = createFakeClock();
+    const cache = new LRUCache<string, number>({
+      ttlMs: 10,
+      clock,
+    });
+    cache.set('a', 1).set('b', 2);
+    await clock.tick(10);
+    expect([...cache.entries()]).toEqual([]);
+    expect(cache.size).toBe(2);
+    cache.prune();
+    expect(cache.size).toBe(0);
+  });
+
+  it('tracks hit and miss stats', () => {
+    const cache = new LRUCache<string, number>({
+      maxSize: 1,
+    });
+    cache.set('a', 1);
+    cache.get('a');
+    cache.get('z');
+    cache.set('b', 2);
+    expect(cache.stats()).toEqual({
+      hits: 1,
+      misses: 1,
+      evictions: 1,
+      expirations: 0,
+      hitRate: 0.5,
+    });
+    cache.resetStats();
+    expect(cache.stats().hits).toBe(0);
+  });
+
+  it('clears every entry', () => {
+    const onEvict = mock(() => {});
+    const cache = new LRUCache<string, number>({ onEvict });
+    cache.set('a', 1).set('b', 2);
+    cache.clear();
+    expect(cache.size).toBe(0);
+    expect([...cache.values()]).toEqual([]);
+    expect(onEvict).toHaveBeenCalledTimes(2);
+  });
+
+  it('validates options', () => {
+    expect(() => new LRUCache({ maxSize: 0 })).toThrow(
+      RangeError,
+    );
+    expect(() => new LRUCache({ ttlMs: 0 })).toThrow(
+      RangeError,
+    );
+  });
+});
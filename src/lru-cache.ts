@@ -0,0 +1,200 @@
+import { type Clock, systemClock } from './clock.js';
+import {
+  type Duration,
+  toMilliseconds,
+} from './duration.js';
+
+/**
+ * Why an entry left the cache.
+ */
+export type EvictionReason =
+  | 'capacity'
+  | 'expired'
+  | 'deleted'
+  | 'cleared';
+
+export interface LRUCacheOptions<K, V> {
+  /** Maximum number of entries. Defaults to `Infinity`. */
+  maxSize?: number;
+  /** Default time to live for entries. */
+  ttlMs?: Duration;
+  /** Called whenever an entry is removed, except when overwritten. */
+  onEvict?: (
+    key: K,
+    value: V,
+    reason: EvictionReason,
+  ) => void;
+  /** Time source for expiry. Defaults to `systemClock`. */
+  clock?: Clock;
+}
+
+export interface LRUCacheStats {
+  hits: number;
+  misses: number;
+  /** Entries removed to stay within `maxSize`. */
+  evictions: number;
+  /** Entries dropped because their TTL passed. */
+  expirations: number;
+  /** `hits / (hits + misses)`, 0 before the first lookup. */
+  hitRate: number;
+}
+
+interface Entry<V> {
+  value: V;
+  expiresAt: number;
+}
+
+/**
+ * A least-recently-used cache with optional per-entry expiry.
+ */
+export class LRUCache<K, V> {
+  private readonly store = new Map<K, Entry<V>>();
+  private readonly maxSize: number;
+  private readonly ttlMs: number;
+  private readonly clock: Clock;
+  private readonly onEvict?: LRUCacheOptions<
+    K,
+    V
+  >['onEvict'];
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expirations = 0;
+
+  constructor({
+    maxSize = Number.POSITIVE_INFINITY,
+    ttlMs: ttl = Number.POSITIVE_INFINITY,
+    onEvict,
+    clock = systemClock,
+  }: LRUCacheOptions<K, V> = {}) {
+    const ttlMs = toMilliseconds(ttl);
+    if (!(maxSize >= 1))
+      throw new RangeError('maxSize must be at least 1');
+    if (!(ttlMs > 0))
+      throw new RangeError('ttlMs must be positive');
+    this.maxSize = maxSize;
+    this.ttlMs = ttlMs;
+    this.onEvict = onEvict;
+    this.clock = clock;
+  }
+
+  /** Number of entries, including expired ones not yet pruned. */
+  get size(): number {
+    return this.store.size;
+  }
+
+  /**
+   * Returns the value for `key` and marks it as most recently used.
+   */
+  get(key: K): V | undefined {
+    const entry = this.live(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    this.store.delete(key);
+    this.store.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Returns the value for `key` without touching recency or stats.
+   */
+  peek(key: K): V | undefined {
+    return this.live(key)?.value;
+  }
+
+  has(key: K): boolean {
+    return this.live(key) !== undefined;
+  }
+
+  /**
+   * Stores a value, evicting the least recently used entry when full.
+   */
+  set(
+    key: K,
+    value: V,
+    { ttlMs = this.ttlMs }: { ttlMs?: Duration } = {},
+  ): this {
+    this.store.delete(key);
+    this.store.set(key, {
+      value,
+      expiresAt: this.clock.now() + toMilliseconds(ttlMs),
+    });
+    while (this.store.size > this.maxSize) {
+      const [oldest] = this.store.keys();
+      this.evictions++;
+      this.remove(oldest, 'capacity');
+    }
+    return this;
+  }
+
+  delete(key: K): boolean {
+    if (!this.store.has(key)) return false;
+    this.remove(key, 'deleted');
+    return true;
+  }
+
+  clear(): void {
+    for (const key of [...this.store.keys()])
+      this.remove(key, 'cleared');
+  }
+
+  /** Removes every expired entry. */
+  prune(): void {
+    for (const key of [...this.store.keys()])
+      this.live(key);
+  }
+
+  /** Live keys from least to most recently used. */
+  *keys(): IterableIterator<K> {
+    for (const [key] of this.entries()) yield key;
+  }
+
+  /** Live values from least to most recently used. */
+  *values(): IterableIterator<V> {
+    for (const [, value] of this.entries()) yield value;
+  }
+
+  /** Live entries from least to most recently used. */
+  *entries(): IterableIterator<[K, V]> {
+    const now = this.clock.now();
+    for (const [key, entry] of this.store)
+      if (entry.expiresAt > now) yield [key, entry.value];
+  }
+
+  stats(): LRUCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      expirations: this.expirations,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+    };
+  }
+
+  /** Resets hit, miss, eviction and expiration counters. */
+  resetStats(): void {
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+    this.expirations = 0;
+  }
+
+  private live(key: K): Entry<V> | undefined {
+    const entry = this.store.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt > this.clock.now()) return entry;
+    this.expirations++;
+    this.remove(key, 'expired');
+    return undefined;
+  }
+
+  private remove(key: K, reason: EvictionReason): void {
+    const entry = this.store.get(key) as Entry<V>;
+    this.store.delete(key);
+    this.onEvict?.(key, entry.value, reason);
+  }
+}
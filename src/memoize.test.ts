@@ -0,0 +1,99 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { createFakeClock } from './clock.js';
+import { memoize } from './memoize.js';
+
+describe('memoize', () => {
+  it('caches results by the first argument', () => {
+    const fn = mock((n: number) => n * 2);
+    const double = memoize(fn);
+    expect(double(2)).toBe(4);
+    expect(double(2)).toBe(4);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('keys multiple arguments together', () => {
+    const fn = mock((a: number, b: number) => a + b);
+    const add = memoize(fn);
+    add(1, 2);
+    add(1, 2);
+    add(2, 1);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses a custom key function', () => {
+    const fn = mock((user: { id: number; name: string }) =>
+      user.name.toUpperCase(),
+    );
+    const shout = memoize(fn, { key: user => user.id });
+    shout({ id: 1, name: 'a' });
+    expect(shout({ id: 1, name: 'b' })).toBe('A');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('caches undefined results', () => {
+    const fn = mock(() => undefined);
+    const noop = memoize(fn);
+    noop();
+    noop();
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('respects maxSize and ttlMs', async () => {
+    const clock = createFakeClock();
+    const fn = mock((n: number) => n);
+    const id = memoize(fn, {
+      maxSize: 1,
+      ttlMs: 100,
+      clock,
+    });
+    id(1);
+    id(2);
+    id(1);
+    expect(fn).toHaveBeenCalledTimes(3);
+    await clock.tick(100);
+    id(1);
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+
+  it('shares in-flight promises', async () => {
+    const fn = mock(async (n: number) => n);
+    const load = memoize(fn);
+    const [a, b] = await Promise.all([load(1), load(1)]);
+    expect(a).toBe(1);
+    expect(b).toBe(1);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache rejections by default', async () => {
+    let calls = 0;
+    const load = memoize(async () => {
+      calls++;
+      if (calls === 1) throw new Error('flaky');
+      return 'ok';
+    });
+    await expect(load()).rejects.toThrow('flaky');
+    expect(await load()).toBe('ok');
+  });
+
+  it('caches rejections when asked', async () => {
+    const fn = mock(() => Promise.reject(new Error('no')));
+    const load = memoize(fn, { cacheRejections: true });
+    await expect(load()).rejects.toThrow('no');
+    await expect(load()).rejects.toThrow('no');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('exposes and clears its cache', () => {
+    const fn = mock((n: number) => n);
+    const id = memoize(fn);
+    id(1);
+    id(1);
+    expect(id.cache.stats()).toMatchObject({
+      hits: 1,
+      misses: 1,
+    });
+    id.clear();
+    id(1);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
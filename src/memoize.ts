@@ -0,0 +1,83 @@
+import type { Clock } from './clock.js';
+import type { Duration } from './duration.js';
+import { LRUCache } from './lru-cache.js';
+
+export interface MemoizeOptions<A extends unknown[]> {
+  /**
+   * Builds the cache key from the arguments. Defaults to the first
+   * argument for single-argument calls and `JSON.stringify(args)`
+   * otherwise.
+   */
+  key?: (...args: A) => unknown;
+  /** Maximum number of cached results. Defaults to `Infinity`. */
+  maxSize?: number;
+  /** Time to live for cached results. */
+  ttlMs?: Duration;
+  /** Keep rejected promises in the cache. Defaults to `false`. */
+  cacheRejections?: boolean;
+  /** Time source for expiry. Defaults to `systemClock`. */
+  clock?: Clock;
+}
+
+/**
+ * A memoized function together with its backing cache.
+ */
+export interface Memoized<A extends unknown[], R> {
+  (...args: A): R;
+  readonly cache: LRUCache<unknown, R>;
+  /** Drops every cached result. */
+  clear(): void;
+}
+
+const defaultKey = (...args: unknown[]): unknown =>
+  args.length <= 1 ? args[0] : JSON.stringify(args);
+
+const isPromiseLike = (
+  value: unknown,
+): value is PromiseLike<unknown> =>
+  typeof (value as PromiseLike<unknown> | null)?.then ===
+  'function';
+
+/**
+ * Caches results of `fn` by key in an `LRUCache`. Promises are cached
+ * as soon as they are returned, so concurrent calls with the same key
+ * share one in-flight call; rejected promises are evicted unless
+ * `cacheRejections` is set.
+ */
+export const memoize = <A extends unknown[], R>(
+  fn: (...args: A) => R,
+  {
+    key = defaultKey,
+    maxSize,
+    ttlMs,
+    cacheRejections = false,
+    clock,
+  }: MemoizeOptions<A> = {},
+): Memoized<A, R> => {
+  const cache = new LRUCache<unknown, R>({
+    maxSize,
+    ttlMs,
+    clock,
+  });
+
+  const memoized = (...args: A): R => {
+    const cacheKey = key(...args);
+    const cached = cache.get(cacheKey);
+    if (cached !== undefined || cache.has(cacheKey))
+      return cached as R;
+
+    const result = fn(...args);
+    cache.set(cacheKey, result);
+    if (!cacheRejections && isPromiseLike(result))
+      result.then(undefined, () => {
+        if (cache.peek(cacheKey) === result)
+          cache.delete(cacheKey);
+      });
+    return result;
+  };
+
+  return Object.assign(memoized, {
+    cache,
+    clear: () => cache.clear(),
+  });
+};
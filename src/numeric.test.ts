@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  clamp,
+  createInterval,
+  inverseLerp,
+  lerp,
+  mean,
+  median,
+  mergeIntervals,
+  percentile,
+  range,
+  remap,
+  roundTo,
+  sum,
+} from './numeric.js';
+
+describe('interpolation', () => {
+  it('lerps and extrapolates', () => {
+    expect(lerp(10, 20, 0.25)).toBe(12.5);
+    expect(lerp(10, 20, 1.5)).toBe(25);
+  });
+
+  it('inverts lerp', () => {
+    expect(inverseLerp(10, 20, 12.5)).toBe(0.25);
+    expect(() => inverseLerp(5, 5, 5)).toThrow(RangeError);
+  });
+
+  it('remaps between ranges', () => {
+    expect(remap(50, 0, 100, 32, 212)).toBe(122);
+    expect(remap(0.5, 0, 1, 10, 0)).toBe(5);
+  });
+});
+
+describe('roundTo', () => {
+  it('rounds halves away from zero by default', () => {
+    expect(roundTo(1.005, 2)).toBe(1.01);
+    expect(roundTo(2.5)).toBe(3);
+    expect(roundTo(-2.5)).toBe(-3);
+  });
+
+  it('rounds halves to even', () => {
+    expect(roundTo(2.5, 0, 'half-even')).toBe(2);
+    expect(roundTo(3.5, 0, 'half-even')).toBe(4);
+    expect(roundTo(-2.5, 0, 'half-even')).toBe(-2);
+    expect(roundTo(1.125, 2, 'half-even')).toBe(1.12);
+    expect(roundTo(1.135, 2, 'half-even')).toBe(1.14);
+  });
+
+  it('rounds halves towards zero', () => {
+    expect(roundTo(2.5, 0, 'half-down')).toBe(2);
+    expect(roundTo(-2.5, 0, 'half-down')).toBe(-2);
+    expect(roundTo(2.51, 0, 'half-down')).toBe(3);
+  });
+
+  it('supports directed modes without float artifacts', () => {
+    expect(roundTo(1.1, 2, 'ceil')).toBe(1.1);
+    expect(roundTo(1.111, 2, 'ceil')).toBe(1.12);
+    expect(roundTo(-1.111, 2, 'floor')).toBe(-1.12);
+    expect(roundTo(-1.119, 2, 'trunc')).toBe(-1.11);
+    expect(roundTo(-0.4)).toBe(0);
+  });
+
+  it('rounds to tens with negative decimals', () => {
+    expect(roundTo(1250, -2, 'half-even')).toBe(1200);
+    expect(roundTo(1234, -1)).toBe(1230);
+  });
+
+  it('rejects fractional decimals', () => {
+    expect(() => roundTo(1, 1.5)).toThrow(RangeError);
+  });
+});
+
+describe('range', () => {
+  it('counts up with an exclusive end', () => {
+    expect([...range(0, 5)]).toEqual([0, 1, 2, 3, 4]);
+    expect([...range(0, 10, 3)]).toEqual([0, 3, 6, 9]);
+  });
+
+  it('counts down by default when start exceeds end', () => {
+    expect([...range(3, 0)]).toEqual([3, 2, 1]);
+  });
+
+  it('avoids accumulated float drift', () => {
+    const values = [...range(0, 1, 0.1)];
+    expect(values).toHaveLength(10);
+    expect(values[3]).toBeCloseTo(0.3, 12);
+  });
+
+  it('is lazy and re-iterable', () => {
+    const numbers = range(0, Number.POSITIVE_INFINITY);
+    const firstThree = (): number[] => {
+      const result: number[] = [];
+      for (const n of numbers) {
+        if (result.length === 3) break;
+        result.push(n);
+      }
+      return result;
+    };
+    expect(firstThree()).toEqual([0, 1, 2]);
+    expect(firstThree()).toEqual([0, 1, 2]);
+  });
+
+  it('yields nothing when the step points away from end', () => {
+    expect([...range(0, 5, -1)]).toEqual([]);
+  });
+
+  it('rejects a zero step', () => {
+    expect(() => range(0, 1, 0)).toThrow(RangeError);
+  });
+});
+
+describe('intervals', () => {
+  it('checks containment and overlap', () => {
+    const hours = createInterval(9, 17);
+    expect(hours.length).toBe(8);
+    expect(hours.contains(9)).toBe(true);
+    expect(hours.contains(17.5)).toBe(false);
+    expect(hours.overlaps(createInterval(17, 20))).toBe(
+      true,
+    );
+    expect(hours.overlaps(createInterval(18, 20))).toBe(
+      false,
+    );
+    expect(hours.clamp(20)).toBe(17);
+  });
+
+  it('merges overlapping intervals', () => {
+    const merged = createInterval(1, 5).merge(
+      createInterval(3, 8),
+    );
+    expect([merged.start, merged.end]).toEqual([1, 8]);
+    expect(() =>
+      createInterval(1, 2).merge(createInterval(3, 4)),
+    ).toThrow(RangeError);
+  });
+
+  it('merges a list of intervals', () => {
+    const merged = mergeIntervals([
+      createInterval(8, 10),
+      createInterval(1, 3),
+      createInterval(2, 6),
+      createInterval(10, 12),
+    ]);
+    expect(merged.map(i => [i.start, i.end])).toEqual([
+      [1, 6],
+      [8, 12],
+    ]);
+  });
+
+  it('validates the bounds like clamp', () => {
+    expect(() => createInterval(2, 1)).toThrow(
+      'start must be less than or equal to end',
+    );
+    expect(() => clamp(1, 2, 1)).toThrow(
+      'min must be less than or equal to max',
+    );
+  });
+
+  it('is frozen', () => {
+    expect(Object.isFrozen(createInterval(0, 1))).toBe(
+      true,
+    );
+  });
+});
+
+describe('statistics', () => {
+  it('sums accurately', () => {
+    expect(sum([])).toBe(0);
+    expect(sum([0.1, 0.2, 0.3])).toBe(0.6);
+    expect(sum([1e16, 1, -1e16])).toBe(1);
+  });
+
+  it('computes mean and median', () => {
+    expect(mean([1, 2, 3, 4])).toBe(2.5);
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+  });
+
+  it('interpolates percentiles', () => {
+    const values = [15, 20, 35, 40, 50];
+    expect(percentile(values, 0)).toBe(15);
+    expect(percentile(values, 100)).toBe(50);
+    expect(percentile(values, 40)).toBe(29);
+  });
+
+  it('rejects empty input and out-of-range percentiles', () => {
+    expect(() => mean([])).toThrow(RangeError);
+    expect(() => median([])).toThrow(RangeError);
+    expect(() => percentile([1], 101)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,282 @@
+import { type Result, tryCatch } from './result.js';
+
+/**
+ * How `roundTo` resolves digits past the requested precision.
+ *
+ * - `half-up` rounds halves away from zero.
+ * - `half-down` rounds halves towards zero.
+ * - `half-even` rounds halves to the nearest even digit (banker's
+ *   rounding), which avoids bias when summing money.
+ * - `ceil`, `floor` and `trunc` behave like their `Math` namesakes.
+ */
+export type RoundingMode =
+  | 'half-up'
+  | 'half-down'
+  | 'half-even'
+  | 'ceil'
+  | 'floor'
+  | 'trunc';
+
+/**
+ * A closed interval `[start, end]`.
+ */
+export interface Interval {
+  readonly start: number;
+  readonly end: number;
+  /** `end - start`. */
+  readonly length: number;
+  contains(value: number): boolean;
+  /** Whether the intervals share at least one point. */
+  overlaps(other: Interval): boolean;
+  /** Smallest interval covering both; they must overlap. */
+  merge(other: Interval): Interval;
+  /** Clamps `value` into the interval. */
+  clamp(value: number): number;
+}
+
+const orderError = (low: string, high: string) =>
+  new RangeError(
+    `${low} must be less than or equal to ${high}`,
+  );
+
+const assertNotEmpty = (values: readonly number[]) => {
+  if (values.length === 0)
+    throw new RangeError('values must not be empty');
+};
+
+/**
+ * Clamps a number between a minimum and maximum value.
+ */
+export const clamp = (
+  value: number,
+  min: number,
+  max: number,
+): number => {
+  if (min > max) throw orderError('min', 'max');
+  return Math.min(Math.max(value, min), max);
+};
+
+/**
+ * Like `clamp`, but returns the `RangeError` instead of throwing it.
+ */
+export const clampSafe = (
+  value: number,
+  min: number,
+  max: number,
+): Result<number, RangeError> =>
+  tryCatch(
+    () => clamp(value, min, max),
+    error => error as RangeError,
+  );
+
+/**
+ * Linear interpolation between `a` and `b`. `t` is not clamped, so
+ * values outside `[0, 1]` extrapolate.
+ */
+export const lerp = (
+  a: number,
+  b: number,
+  t: number,
+): number => a + (b - a) * t;
+
+/**
+ * Inverse of `lerp`: where `value` sits between `a` and `b`, as a
+ * fraction.
+ */
+export const inverseLerp = (
+  a: number,
+  b: number,
+  value: number,
+): number => {
+  if (a === b) throw new RangeError('a and b must differ');
+  return (value - a) / (b - a);
+};
+
+/**
+ * Maps `value` from `[inMin, inMax]` onto `[outMin, outMax]`.
+ */
+export const remap = (
+  value: number,
+  inMin: number,
+  inMax: number,
+  outMin: number,
+  outMax: number,
+): number =>
+  lerp(outMin, outMax, inverseLerp(inMin, inMax, value));
+
+// Tolerates binary representation error, e.g. 1.005 * 100.
+const nearlyEqual = (a: number, b: number): boolean =>
+  Math.abs(a - b) <=
+  Number.EPSILON * Math.max(1, Math.abs(a)) * 8;
+
+const roundScaled = (
+  scaled: number,
+  mode: RoundingMode,
+): number => {
+  switch (mode) {
+    case 'ceil':
+      return Math.ceil(scaled);
+    case 'floor':
+      return Math.floor(scaled);
+    case 'trunc':
+      return Math.trunc(scaled);
+  }
+  const lower = Math.floor(scaled);
+  if (!nearlyEqual(scaled, lower + 0.5))
+    return Math.round(scaled);
+  if (mode === 'half-even')
+    return lower % 2 === 0 ? lower : lower + 1;
+  const awayFromZero = scaled > 0 ? lower + 1 : lower;
+  const towardsZero = scaled > 0 ? lower : lower + 1;
+  return mode === 'half-up' ? awayFromZero : towardsZero;
+};
+
+/**
+ * Rounds to `decimals` places using `mode`, which defaults to
+ * `half-up`. Negative `decimals` round to tens, hundreds and so on.
+ */
+export const roundTo = (
+  value: number,
+  decimals = 0,
+  mode: RoundingMode = 'half-up',
+): number => {
+  if (!Number.isInteger(decimals))
+    throw new RangeError('decimals must be an integer');
+  const factor = 10 ** Math.abs(decimals);
+  const scaled =
+    decimals >= 0 ? value * factor : value / factor;
+  const nearest = Math.round(scaled);
+  const rounded = nearlyEqual(scaled, nearest)
+    ? nearest
+    : roundScaled(scaled, mode);
+  // `+ 0` turns -0 into 0.
+  return (
+    (decimals >= 0 ? rounded / factor : rounded * factor) +
+    0
+  );
+};
+
+/**
+ * Lazily yields numbers from `start` up to, but not including, `end`.
+ * `step` defaults to 1, or -1 when counting down. The result can be
+ * iterated more than once.
+ */
+export const range = (
+  start: number,
+  end: number,
+  step = start <= end ? 1 : -1,
+): Iterable<number> => {
+  if (step === 0 || !Number.isFinite(step))
+    throw new RangeError(
+      'step must be a finite non-zero number',
+    );
+  return {
+    *[Symbol.iterator]() {
+      // Multiplying instead of accumulating avoids drift.
+      for (let i = 0; ; i++) {
+        const value = start + i * step;
+        if (step > 0 ? value >= end : value <= end) return;
+        yield value;
+      }
+    },
+  };
+};
+
+/**
+ * Creates a closed interval `[start, end]`.
+ */
+export const createInterval = (
+  start: number,
+  end: number,
+): Interval => {
+  if (start > end) throw orderError('start', 'end');
+  const interval: Interval = {
+    start,
+    end,
+    length: end - start,
+    contains: value => value >= start && value <= end,
+    overlaps: other =>
+      other.start <= end && other.end >= start,
+    merge(other) {
+      if (!interval.overlaps(other))
+        throw new RangeError(
+          'intervals must overlap to merge',
+        );
+      return createInterval(
+        Math.min(start, other.start),
+        Math.max(end, other.end),
+      );
+    },
+    clamp: value => clamp(value, start, end),
+  };
+  return Object.freeze(interval);
+};
+
+/**
+ * Merges overlapping intervals, returning them sorted by start.
+ */
+export const mergeIntervals = (
+  intervals: Iterable<Interval>,
+): Interval[] => {
+  const sorted = [...intervals].sort(
+    (a, b) => a.start - b.start,
+  );
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last?.overlaps(interval))
+      merged[merged.length - 1] = last.merge(interval);
+    else merged.push(interval);
+  }
+  return merged;
+};
+
+/**
+ * Sum of `values`, compensating for floating point error (Neumaier).
+ */
+export const sum = (values: readonly number[]): number => {
+  let total = 0;
+  let compensation = 0;
+  for (const value of values) {
+    const next = total + value;
+    compensation +=
+      Math.abs(total) >= Math.abs(value)
+        ? total - next + value
+        : value - next + total;
+    total = next;
+  }
+  return total + compensation;
+};
+
+/**
+ * Arithmetic mean of a non-empty array.
+ */
+export const mean = (values: readonly number[]): number => {
+  assertNotEmpty(values);
+  return sum(values) / values.length;
+};
+
+/**
+ * Value below which `p` percent of `values` fall, interpolating
+ * linearly between the closest ranks. `p` is between 0 and 100.
+ */
+export const percentile = (
+  values: readonly number[],
+  p: number,
+): number => {
+  assertNotEmpty(values);
+  if (!(p >= 0 && p <= 100))
+    throw new RangeError('p must be between 0 and 100');
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return lerp(sorted[lower], sorted[upper], rank - lower);
+};
+
+/**
+ * Middle value of a non-empty array, averaging the two middle values
+ * when the length is even.
+ */
+export const median = (values: readonly number[]): number =>
+  percentile(values, 50);
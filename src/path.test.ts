@@ -0,0 +1,200 @@
+import {
+  describe,
+  expect,
+  expectTypeOf,
+  it,
+} from 'bun:test';
+import {
+  get,
+  has,
+  omit,
+  pick,
+  set,
+  unset,
+} from './path.js';
+
+const makeConfig = () => ({
+  server: { host: 'localhost', port: 8080 },
+  users: [
+    { id: 1, name: 'ada', roles: ['admin'] },
+    { id: 2, name: 'bob', roles: [] as string[] },
+  ],
+  flags: { beta: true } as {
+    beta: boolean;
+    legacy?: boolean;
+  },
+});
+
+describe('get', () => {
+  it('reads nested values', () => {
+    const config = makeConfig();
+    expect(get(config, 'server.port')).toBe(8080);
+    expect(get(config, 'users[1].name')).toBe('bob');
+    expect(get(config, 'users[0].roles[0]')).toBe('admin');
+  });
+
+  it('returns undefined for missing branches', () => {
+    const config = makeConfig();
+    expect(get(config, 'users[5].name')).toBeUndefined();
+    expect(get(config, 'flags.legacy')).toBeUndefined();
+  });
+
+  it('infers the value type', () => {
+    const config = makeConfig();
+    expectTypeOf(
+      get(config, 'server.host'),
+    ).toEqualTypeOf<string>();
+    expectTypeOf(
+      get(config, 'users[0].id'),
+    ).toEqualTypeOf<number>();
+    expectTypeOf(
+      get(config, 'users[0].roles'),
+    ).toEqualTypeOf<string[]>();
+    expectTypeOf(get(config, 'flags.legacy')).toEqualTypeOf<
+      boolean | undefined
+    >();
+  });
+
+  it('rejects unknown paths at compile time', () => {
+    const config = makeConfig();
+    // @ts-expect-error not a path of config
+    expect(get(config, 'server.nope')).toBeUndefined();
+    // @ts-expect-error arrays need an index
+    expect(get(config, 'users.name')).toBeUndefined();
+  });
+
+  it('throws for malformed paths', () => {
+    const data: Record<string, unknown> = {};
+    expect(() => get(data, 'a..b')).toThrow(TypeError);
+    expect(() => get(data, 'a[x]')).toThrow(TypeError);
+    expect(() => get(data, '')).toThrow(TypeError);
+  });
+});
+
+describe('has', () => {
+  it('checks own properties along the path', () => {
+    const config = makeConfig();
+    expect(has(config, 'server.host')).toBe(true);
+    expect(has(config, 'users[1].roles')).toBe(true);
+    expect(has(config, 'users[2]')).toBe(false);
+    expect(has(config, 'flags.legacy')).toBe(false);
+  });
+});
+
+describe('set', () => {
+  it('mutates by default', () => {
+    const config = makeConfig();
+    const result = set(config, 'server.port', 9090);
+    expect(result).toBe(config);
+    expect(config.server.port).toBe(9090);
+  });
+
+  it('creates missing objects and arrays', () => {
+    const data: Record<string, unknown> = {};
+    set(data, 'a.list[1].b', 1);
+    expect(data).toEqual({
+      a: { list: [undefined, { b: 1 }] },
+    });
+  });
+
+  it('copies only the changed branch when immutable', () => {
+    const config = makeConfig();
+    const next = set(config, 'users[0].name', 'ADA', {
+      immutable: true,
+    });
+    expect(next).not.toBe(config);
+    expect(next.users).not.toBe(config.users);
+    expect(next.users[0]).not.toBe(config.users[0]);
+    expect(next.users[0].name).toBe('ADA');
+    expect(config.users[0].name).toBe('ada');
+    expect(next.users[1]).toBe(config.users[1]);
+    expect(next.server).toBe(config.server);
+  });
+
+  it('checks the value type', () => {
+    const config = makeConfig();
+    // @ts-expect-error port is a number
+    set(config, 'server.port', 'high');
+  });
+
+  it('refuses prototype paths', () => {
+    const data: Record<string, unknown> = {};
+    expect(() =>
+      set(data, '__proto__.polluted', true),
+    ).toThrow(TypeError);
+    expect(() =>
+      set(data, 'constructor.prototype.polluted', true),
+    ).toThrow(TypeError);
+  });
+});
+
+describe('unset', () => {
+  it('removes object keys and array items', () => {
+    const config = makeConfig();
+    unset(config, 'server.host');
+    unset(config, 'users[0]');
+    expect(Object.keys(config.server)).toEqual(['port']);
+    expect(config.users.map(u => u.id)).toEqual([2]);
+  });
+
+  it('leaves the input alone when immutable', () => {
+    const config = makeConfig();
+    const next = unset(config, 'users[0].roles', {
+      immutable: true,
+    });
+    expect(config.users[0].roles).toEqual(['admin']);
+    expect(has(next, 'users[0].roles')).toBe(false);
+    expect(next.server).toBe(config.server);
+  });
+
+  it('ignores missing paths', () => {
+    const config = makeConfig();
+    expect(unset(config, 'users[9].name')).toBe(config);
+  });
+});
+
+describe('deep pick and omit', () => {
+  it('picks nested paths', () => {
+    const config = makeConfig();
+    const picked = pick(config, ['server.port', 'flags']);
+    expect(picked).toEqual({
+      server: { port: 8080 },
+      flags: { beta: true },
+    });
+    expectTypeOf(picked).toEqualTypeOf<{
+      server: { port: number };
+      flags: { beta: boolean; legacy?: boolean };
+    }>();
+  });
+
+  it('picks array items by index without leaving holes', () => {
+    const source = {
+      a: [
+        { b: 1, c: 2 },
+        { b: 3, c: 4 },
+        { b: 5, c: 6 },
+      ],
+    };
+    const picked = pick(source, ['a[2].b', 'a[1].b']);
+    expect(picked).toEqual({ a: [{ b: 3 }, { b: 5 }] });
+    expect(picked.a[0].b).toBe(3);
+    expectTypeOf(picked).toEqualTypeOf<{
+      a: { b: number }[];
+    }>();
+    expect(source.a[1]).toEqual({ b: 3, c: 4 });
+  });
+
+  it('omits nested paths without mutating', () => {
+    const config = makeConfig();
+    const omitted = omit(config, ['server.host', 'users']);
+    expect(omitted).toEqual({
+      server: { port: 8080 },
+      flags: { beta: true },
+    });
+    expect(config.server.host).toBe('localhost');
+    expectTypeOf(omitted).toEqualTypeOf<{
+      server: { port: number };
+      flags: { beta: boolean; legacy?: boolean };
+    }>();
+  });
+});
@@ -0,0 +1,390 @@
+type Leaf =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date
+  | RegExp
+  | ((...args: never[]) => unknown);
+
+/** Remaining recursion depth for `Path`, to keep type checking fast. */
+type Prev = [never, 0, 1, 2, 3, 4, 5, 6, 7];
+
+type SubPath<T, D extends number> = [D] extends [never]
+  ? never
+  : NonNullable<T> extends readonly unknown[]
+    ? Path<NonNullable<T>, D>
+    : `.${Path<NonNullable<T>, D>}`;
+
+/**
+ * Every valid path string into `T`, e.g. `'a' | 'a.b' | 'a.b[0]'`.
+ * Array items use `[n]`. Recursion stops at 8 levels.
+ */
+export type Path<T, D extends number = 8> = [D] extends [
+  never,
+]
+  ? never
+  : T extends Leaf
+    ? never
+    : T extends readonly (infer U)[]
+      ? `[${number}]` | `[${number}]${SubPath<U, Prev[D]>}`
+      : {
+          [K in keyof T & (string | number)]:
+            | `${K}`
+            | `${K}${SubPath<T[K], Prev[D]>}`;
+        }[keyof T & (string | number)];
+
+type Segments<P extends string> =
+  P extends `${infer Head}.${infer Tail}`
+    ? [...Segments<Head>, ...Segments<Tail>]
+    : P extends `${infer Head}[${infer Index}]${infer Tail}`
+      ? [
+          ...(Head extends '' ? [] : [Head]),
+          Index,
+          ...Segments<Tail>,
+        ]
+      : P extends ''
+        ? []
+        : [P];
+
+type Index<T, K extends string> = unknown extends T
+  ? unknown
+  : T extends null | undefined
+    ? undefined
+    : T extends readonly (infer U)[]
+      ? K extends keyof T
+        ? T[K]
+        : U
+      : K extends keyof T
+        ? T[K]
+        : undefined;
+
+type ValueAt<T, S extends unknown[]> = S extends [
+  infer Head extends string,
+  ...infer Rest,
+]
+  ? ValueAt<Index<T, Head>, Rest>
+  : T;
+
+/**
+ * Type of the value found at path `P` in `T`.
+ */
+export type PathValue<T, P extends string> = ValueAt<
+  T,
+  Segments<P>
+>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type Head<P extends string> =
+  P extends `${infer H}.${string}`
+    ? H extends `${infer K}[${string}`
+      ? K
+      : H
+    : P extends `${infer K}[${string}`
+      ? K
+      : P;
+
+type Tail<
+  P extends string,
+  K extends string,
+> = P extends `${K}.${infer Rest}`
+  ? Rest
+  : P extends `${K}[${string}]${infer Rest}`
+    ? Rest extends `.${infer R}`
+      ? R
+      : Rest
+    : never;
+
+/**
+ * `T` narrowed to the given paths, keeping their nesting.
+ */
+export type DeepPick<
+  T,
+  P extends string,
+> = T extends readonly (infer U)[]
+  ? DeepPick<U, P>[]
+  : Simplify<{
+      [K in keyof T as `${K & (string | number)}` extends Head<P>
+        ? K
+        : never]: `${K & (string | number)}` extends P
+        ? T[K]
+        : DeepPick<
+            T[K],
+            Tail<P, `${K & (string | number)}`>
+          >;
+    }>;
+
+/**
+ * `T` without the given paths, keeping the rest of its nesting.
+ */
+export type DeepOmit<T, P extends string> = [P] extends [
+  never,
+]
+  ? T
+  : T extends readonly (infer U)[]
+    ? DeepOmit<U, P>[]
+    : Simplify<{
+        [K in keyof T as `${K & (string | number)}` extends P
+          ? never
+          : K]: `${K & (string | number)}` extends Head<P>
+          ? DeepOmit<
+              T[K],
+              Tail<P, `${K & (string | number)}`>
+            >
+          : T[K];
+      }>;
+
+export interface PathUpdateOptions {
+  /**
+   * Return a new root instead of mutating, copying only the objects
+   * along the path. Defaults to `false`.
+   */
+  immutable?: boolean;
+}
+
+type Container = Record<PropertyKey, unknown>;
+
+const UNSAFE_KEYS = new Set([
+  '__proto__',
+  'constructor',
+  'prototype',
+]);
+
+const isObject = (value: unknown): value is Container =>
+  typeof value === 'object' && value !== null;
+
+const invalidPath = (path: string) =>
+  new TypeError(`Invalid path: "${path}"`);
+
+/**
+ * Splits `'a.b[0].c'` into `['a', 'b', 0, 'c']`.
+ */
+const parsePath = (path: string): PropertyKey[] => {
+  const segments: PropertyKey[] = [];
+  let i = 0;
+  while (i < path.length) {
+    if (path[i] === '[') {
+      const end = path.indexOf(']', i);
+      const index = path.slice(i + 1, end);
+      if (end === -1 || !/^\d+$/.test(index))
+        throw invalidPath(path);
+      segments.push(Number(index));
+      i = end + 1;
+      continue;
+    }
+    if (segments.length > 0) {
+      if (path[i] !== '.') throw invalidPath(path);
+      i++;
+    }
+    const match = /^[^.[\]]+/.exec(path.slice(i));
+    if (!match) throw invalidPath(path);
+    segments.push(match[0]);
+    i += match[0].length;
+  }
+  if (segments.length === 0) throw invalidPath(path);
+  return segments;
+};
+
+const hasKey = (
+  node: unknown,
+  key: PropertyKey,
+): boolean =>
+  Array.isArray(node)
+    ? typeof key === 'number' && key < node.length
+    : isObject(node) && Object.hasOwn(node, key);
+
+const shallowCopy = (node: Container): Container =>
+  Array.isArray(node)
+    ? ([...node] as unknown as Container)
+    : Object.assign(
+        Object.create(Object.getPrototypeOf(node)),
+        node,
+      );
+
+const assertSafe = (
+  path: string,
+  segments: PropertyKey[],
+) => {
+  if (segments.some(s => UNSAFE_KEYS.has(String(s))))
+    throw new TypeError(`Unsafe path: "${path}"`);
+};
+
+const setIn = (
+  node: unknown,
+  segments: PropertyKey[],
+  depth: number,
+  value: unknown,
+  immutable: boolean,
+): Container => {
+  const key = segments[depth];
+  const base: Container = isObject(node)
+    ? node
+    : typeof key === 'number'
+      ? ([] as unknown as Container)
+      : {};
+  const target =
+    immutable && base === node ? shallowCopy(base) : base;
+  target[key] =
+    depth === segments.length - 1
+      ? value
+      : setIn(
+          target[key],
+          segments,
+          depth + 1,
+          value,
+          immutable,
+        );
+  return target;
+};
+
+const unsetIn = (
+  node: unknown,
+  segments: PropertyKey[],
+  depth: number,
+  immutable: boolean,
+): unknown => {
+  const key = segments[depth];
+  if (!hasKey(node, key)) return node;
+  const target = immutable
+    ? shallowCopy(node as Container)
+    : (node as Container);
+  if (depth < segments.length - 1)
+    target[key] = unsetIn(
+      target[key],
+      segments,
+      depth + 1,
+      immutable,
+    );
+  else if (Array.isArray(target))
+    target.splice(key as number, 1);
+  else delete target[key];
+  return target;
+};
+
+/**
+ * Reads the value at a path such as `'a.b[0].c'`. Returns `undefined`
+ * when any part of the path is missing.
+ */
+export const get = <T, P extends Path<T>>(
+  obj: T,
+  path: P,
+): PathValue<T, P> => {
+  let node: unknown = obj;
+  for (const key of parsePath(path)) {
+    if (!isObject(node))
+      return undefined as PathValue<T, P>;
+    node = node[key];
+  }
+  return node as PathValue<T, P>;
+};
+
+/**
+ * Whether every part of the path exists as an own property.
+ */
+export const has = <T, P extends Path<T>>(
+  obj: T,
+  path: P,
+): boolean => {
+  let node: unknown = obj;
+  for (const key of parsePath(path)) {
+    if (!hasKey(node, key)) return false;
+    node = (node as Container)[key];
+  }
+  return true;
+};
+
+/**
+ * Sets the value at a path, creating missing objects and arrays along
+ * the way. Mutates and returns `obj` unless `immutable` is set.
+ */
+export const set = <T extends object, P extends Path<T>>(
+  obj: T,
+  path: P,
+  value: PathValue<T, P>,
+  { immutable = false }: PathUpdateOptions = {},
+): T => {
+  const segments = parsePath(path);
+  assertSafe(path, segments);
+  return setIn(obj, segments, 0, value, immutable) as T;
+};
+
+/**
+ * Removes the value at a path. Array items are spliced out. Mutates and
+ * returns `obj` unless `immutable` is set.
+ */
+export const unset = <T extends object, P extends Path<T>>(
+  obj: T,
+  path: P,
+  { immutable = false }: PathUpdateOptions = {},
+): T => {
+  const segments = parsePath(path);
+  assertSafe(path, segments);
+  return unsetIn(obj, segments, 0, immutable) as T;
+};
+
+/**
+ * Drops the holes that picking `a[1]` leaves in the arrays `pick`
+ * created, leaving picked values untouched.
+ */
+const compactPicked = (
+  node: unknown,
+  created: Set<unknown>,
+): unknown => {
+  if (!created.has(node)) return node;
+  if (Array.isArray(node))
+    // `filter` skips holes.
+    return node
+      .filter(() => true)
+      .map(item => compactPicked(item, created));
+  const container = node as Container;
+  for (const key of Object.keys(container))
+    container[key] = compactPicked(container[key], created);
+  return container;
+};
+
+/**
+ * Picks specified keys or deep paths from an object. Array items
+ * picked by index are kept in order without gaps, so
+ * `pick(obj, ['a[1].b'])` gives `{ a: [{ b }] }`.
+ */
+export const pick = <T extends object, P extends Path<T>>(
+  obj: T,
+  paths: readonly P[],
+): DeepPick<T, P> => {
+  const result: Container = {};
+  const created = new Set<unknown>([result]);
+  for (const path of paths) {
+    const segments = parsePath(path);
+    if (!has(obj, path)) continue;
+    setIn(result, segments, 0, get(obj, path), false);
+    let node: unknown = result;
+    for (const key of segments.slice(0, -1)) {
+      node = (node as Container)[key];
+      created.add(node);
+    }
+  }
+  return compactPicked(result, created) as DeepPick<T, P>;
+};
+
+/**
+ * Omits specified keys or deep paths from an object without mutating
+ * it. Only objects along omitted paths are copied.
+ */
+export const omit = <T extends object, P extends Path<T>>(
+  obj: T,
+  paths: readonly P[],
+): DeepOmit<T, P> => {
+  let result = shallowCopy(obj as Container);
+  for (const path of paths)
+    result = unsetIn(
+      result,
+      parsePath(path),
+      0,
+      true,
+    ) as Container;
+  return result as DeepOmit<T, P>;
+};
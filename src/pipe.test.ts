@@ -0,0 +1,204 @@
+import {
+  describe,
+  expect,
+  expectTypeOf,
+  it,
+} from 'bun:test';
+import { AsyncPipeline, Pipeline, pipe } from './pipe.js';
+
+const countingSource = () => {
+  const state = { pulled: 0, closed: false };
+  function* numbers() {
+    try {
+      for (let n = 1; ; n++) {
+        state.pulled++;
+        yield n;
+      }
+    } finally {
+      state.closed = true;
+    }
+  }
+  return { state, source: numbers() };
+};
+
+const asyncRange = async function* (count: number) {
+  for (let n = 1; n <= count; n++) {
+    await Promise.resolve();
+    yield n;
+  }
+};
+
+describe('pipe with sync iterables', () => {
+  it('chains lazy operations', () => {
+    const result = pipe([1, 2, 2, 3, 4, 4, 5, 6])
+      .filter(n => n > 1)
+      .map(n => n * 10)
+      .unique()
+      .chunk(2)
+      .toArray();
+    expect(result).toEqual([[20, 30], [40, 50], [60]]);
+  });
+
+  it('accepts strings', async () => {
+    expect(
+      pipe('abc' as Iterable<string>).toArray(),
+    ).toEqual(['a', 'b', 'c']);
+    expect(
+      await new AsyncPipeline(
+        'ab' as Iterable<string>,
+      ).toArray(),
+    ).toEqual(['a', 'b']);
+  });
+
+  it('returns a synchronous pipeline', () => {
+    expect(pipe(new Set([1]))).toBeInstanceOf(Pipeline);
+    expectTypeOf(pipe([1]).toArray()).toEqualTypeOf<
+      number[]
+    >();
+  });
+
+  it('pulls only what is needed from infinite sources', () => {
+    const { state, source } = countingSource();
+    const result = pipe(source)
+      .filter(n => n % 2 === 0)
+      .take(3)
+      .toArray();
+    expect(result).toEqual([2, 4, 6]);
+    expect(state.pulled).toBe(6);
+    expect(state.closed).toBe(true);
+  });
+
+  it('closes the source when the consumer breaks out', () => {
+    const { state, source } = countingSource();
+    for (const n of pipe(source).map(n => n * 2))
+      if (n >= 4) break;
+    expect(state.pulled).toBe(2);
+    expect(state.closed).toBe(true);
+  });
+
+  it('narrows with type guards', () => {
+    const values: (string | number)[] = ['a', 1, 'b'];
+    const strings = pipe(values)
+      .filter((v): v is string => typeof v === 'string')
+      .toArray();
+    expectTypeOf(strings).toEqualTypeOf<string[]>();
+    expect(strings).toEqual(['a', 'b']);
+  });
+
+  it('supports reduce, forEach, first and groupBy', () => {
+    const words = ['apple', 'avocado', 'banana'];
+    expect(
+      pipe(words).reduce((sum, w) => sum + w.length, 0),
+    ).toBe(18);
+    const seen: string[] = [];
+    pipe(words).forEach((w, i) => {
+      seen.push(`${i}:${w}`);
+    });
+    expect(seen).toEqual([
+      '0:apple',
+      '1:avocado',
+      '2:banana',
+    ]);
+    expect(pipe(words).first()).toBe('apple');
+    expect(pipe([]).first()).toBeUndefined();
+    expect(pipe(words).groupBy(w => w[0])).toEqual({
+      a: ['apple', 'avocado'],
+      b: ['banana'],
+    });
+  });
+
+  it('can be iterated again when the source can', () => {
+    const doubled = pipe([1, 2]).map(n => n * 2);
+    expect(doubled.toArray()).toEqual([2, 4]);
+    expect(doubled.toArray()).toEqual([2, 4]);
+  });
+
+  it('validates arguments when the stage is added', () => {
+    expect(() => pipe([1]).chunk(0)).toThrow(RangeError);
+    expect(() => pipe([1]).take(-1)).toThrow(RangeError);
+  });
+});
+
+describe('pipe with async iterables', () => {
+  it('chains lazy operations with async callbacks', async () => {
+    const result = await pipe(asyncRange(7))
+      .filter(async n => n !== 3)
+      .map(async n => n % 5)
+      .unique()
+      .chunk(2)
+      .toArray();
+    expect(result).toEqual([
+      [1, 2],
+      [4, 0],
+    ]);
+  });
+
+  it('returns an asynchronous pipeline', () => {
+    const pipeline = pipe(asyncRange(1));
+    expect(pipeline).toBeInstanceOf(AsyncPipeline);
+    expectTypeOf(pipeline.toArray()).toEqualTypeOf<
+      Promise<number[]>
+    >();
+  });
+
+  it('does not pull ahead of a slow consumer', async () => {
+    let pulled = 0;
+    const source = async function* () {
+      for (let n = 1; n <= 5; n++) {
+        pulled++;
+        yield n;
+      }
+    };
+    const processed: number[] = [];
+    await pipe(source()).forEach(async n => {
+      expect(pulled).toBe(n);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      processed.push(n);
+    });
+    expect(processed).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('closes the source on early termination', async () => {
+    let closed = false;
+    const source = async function* () {
+      try {
+        for (let n = 1; ; n++) yield n;
+      } finally {
+        closed = true;
+      }
+    };
+    expect(await pipe(source()).take(2).toArray()).toEqual([
+      1, 2,
+    ]);
+    expect(closed).toBe(true);
+  });
+
+  it('lifts sync pipelines with toAsync', async () => {
+    const result = await pipe([1, 2, 3])
+      .toAsync()
+      .map(async n => n * 2)
+      .reduce(async (sum, n) => sum + n, 0);
+    expect(result).toBe(12);
+    expect(await pipe([3, 4]).toAsync().first()).toBe(3);
+  });
+
+  it('groups async items', async () => {
+    expect(
+      await pipe(asyncRange(4)).groupBy(n =>
+        n % 2 === 0 ? 'even' : 'odd',
+      ),
+    ).toEqual({ odd: [1, 3], even: [2, 4] });
+  });
+
+  it('propagates errors from callbacks', async () => {
+    const error = await pipe(asyncRange(3))
+      .map(n => {
+        if (n === 2) throw new Error('bad row');
+        return n;
+      })
+      .toArray()
+      .catch(e => e);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe('bad row');
+  });
+});
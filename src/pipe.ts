@@ -0,0 +1,365 @@
+import {
+  groupBy,
+  type KeyedRecord,
+  type KeyFn,
+} from './group.js';
+import { isAsyncIterable } from './iterable.js';
+
+type Awaitable<T> = T | PromiseLike<T>;
+
+const assertChunkSize = (size: number) => {
+  if (size < 1)
+    throw new RangeError('size must be at least 1');
+};
+
+const assertCount = (n: number) => {
+  if (!(n >= 0))
+    throw new RangeError('n must be a non-negative number');
+};
+
+function* filterSync<T>(
+  source: Iterable<T>,
+  predicate: (item: T, index: number) => boolean,
+): Generator<T> {
+  let index = 0;
+  for (const item of source)
+    if (predicate(item, index++)) yield item;
+}
+
+function* mapSync<T, U>(
+  source: Iterable<T>,
+  fn: (item: T, index: number) => U,
+): Generator<U> {
+  let index = 0;
+  for (const item of source) yield fn(item, index++);
+}
+
+function* uniqueSync<T>(
+  source: Iterable<T>,
+  keyFn: (item: T) => unknown,
+): Generator<T> {
+  const seen = new Set<unknown>();
+  for (const item of source) {
+    const key = keyFn(item);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    yield item;
+  }
+}
+
+function* chunkSync<T>(
+  source: Iterable<T>,
+  size: number,
+): Generator<T[]> {
+  let batch: T[] = [];
+  for (const item of source) {
+    batch.push(item);
+    if (batch.length < size) continue;
+    yield batch;
+    batch = [];
+  }
+  if (batch.length > 0) yield batch;
+}
+
+function* takeSync<T>(
+  source: Iterable<T>,
+  n: number,
+): Generator<T> {
+  if (n === 0) return;
+  let taken = 0;
+  for (const item of source) {
+    yield item;
+    if (++taken >= n) return;
+  }
+}
+
+async function* filterAsync<T>(
+  source: AsyncIterable<T>,
+  predicate: (item: T, index: number) => Awaitable<boolean>,
+): AsyncGenerator<T> {
+  let index = 0;
+  for await (const item of source)
+    if (await predicate(item, index++)) yield item;
+}
+
+async function* mapAsync<T, U>(
+  source: AsyncIterable<T>,
+  fn: (item: T, index: number) => Awaitable<U>,
+): AsyncGenerator<U> {
+  let index = 0;
+  for await (const item of source) yield fn(item, index++);
+}
+
+async function* uniqueAsync<T>(
+  source: AsyncIterable<T>,
+  keyFn: (item: T) => unknown,
+): AsyncGenerator<T> {
+  const seen = new Set<unknown>();
+  for await (const item of source) {
+    const key = keyFn(item);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    yield item;
+  }
+}
+
+async function* chunkAsync<T>(
+  source: AsyncIterable<T>,
+  size: number,
+): AsyncGenerator<T[]> {
+  let batch: T[] = [];
+  for await (const item of source) {
+    batch.push(item);
+    if (batch.length < size) continue;
+    yield batch;
+    batch = [];
+  }
+  if (batch.length > 0) yield batch;
+}
+
+async function* takeAsync<T>(
+  source: AsyncIterable<T>,
+  n: number,
+): AsyncGenerator<T> {
+  if (n === 0) return;
+  let taken = 0;
+  for await (const item of source) {
+    yield item;
+    if (++taken >= n) return;
+  }
+}
+
+async function* fromIterable<T>(
+  source: Iterable<T> | AsyncIterable<T>,
+): AsyncGenerator<T> {
+  yield* source;
+}
+
+/**
+ * A lazy chain of operations over a synchronous iterable. Nothing runs
+ * until a terminal operation or `for...of` pulls items, and stopping
+ * early closes the source.
+ */
+export class Pipeline<T> implements Iterable<T> {
+  constructor(private readonly source: Iterable<T>) {}
+
+  [Symbol.iterator](): Iterator<T> {
+    return this.source[Symbol.iterator]();
+  }
+
+  filter<S extends T>(
+    predicate: (item: T, index: number) => item is S,
+  ): Pipeline<S>;
+  filter(
+    predicate: (item: T, index: number) => boolean,
+  ): Pipeline<T>;
+  filter(
+    predicate: (item: T, index: number) => boolean,
+  ): Pipeline<T> {
+    return this.through(source =>
+      filterSync(source, predicate),
+    );
+  }
+
+  map<U>(fn: (item: T, index: number) => U): Pipeline<U> {
+    return this.through(source => mapSync(source, fn));
+  }
+
+  /** Drops items whose key was already seen. */
+  unique(
+    keyFn: (item: T) => unknown = item => item,
+  ): Pipeline<T> {
+    return this.through(source =>
+      uniqueSync(source, keyFn),
+    );
+  }
+
+  /** Batches items into arrays of `size`; the last may be shorter. */
+  chunk(size: number): Pipeline<T[]> {
+    assertChunkSize(size);
+    return this.through(source => chunkSync(source, size));
+  }
+
+  /** Stops after `n` items and closes the source. */
+  take(n: number): Pipeline<T> {
+    assertCount(n);
+    return this.through(source => takeSync(source, n));
+  }
+
+  /** Continues the chain with async operations. */
+  toAsync(): AsyncPipeline<T> {
+    return new AsyncPipeline(this.source);
+  }
+
+  toArray(): T[] {
+    return [...this];
+  }
+
+  reduce<A>(
+    fn: (acc: A, item: T, index: number) => A,
+    initial: A,
+  ): A {
+    let acc = initial;
+    let index = 0;
+    for (const item of this) acc = fn(acc, item, index++);
+    return acc;
+  }
+
+  forEach(fn: (item: T, index: number) => void): void {
+    let index = 0;
+    for (const item of this) fn(item, index++);
+  }
+
+  /** The first item, or `undefined` when empty. */
+  first(): T | undefined {
+    for (const item of this) return item;
+    return undefined;
+  }
+
+  groupBy<K extends PropertyKey>(
+    keyFn: KeyFn<T, K>,
+  ): KeyedRecord<K, T[]> {
+    return groupBy(this, keyFn);
+  }
+
+  private through<U>(
+    op: (source: Iterable<T>) => Iterator<U>,
+  ): Pipeline<U> {
+    const { source } = this;
+    return new Pipeline({
+      [Symbol.iterator]: () => op(source),
+    });
+  }
+}
+
+/**
+ * A lazy chain of operations over a sync or async iterable. Callbacks
+ * may return promises. Each stage pulls the next item only once the
+ * consumer asks for it, so a slow consumer holds back the source
+ * instead of buffering it, and stopping early closes the source.
+ */
+export class AsyncPipeline<T> implements AsyncIterable<T> {
+  private readonly source: AsyncIterable<T>;
+
+  constructor(source: Iterable<T> | AsyncIterable<T>) {
+    this.source = isAsyncIterable(source)
+      ? source
+      : {
+          [Symbol.asyncIterator]: () =>
+            fromIterable(source),
+        };
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return this.source[Symbol.asyncIterator]();
+  }
+
+  filter<S extends T>(
+    predicate: (item: T, index: number) => item is S,
+  ): AsyncPipeline<S>;
+  filter(
+    predicate: (
+      item: T,
+      index: number,
+    ) => Awaitable<boolean>,
+  ): AsyncPipeline<T>;
+  filter(
+    predicate: (
+      item: T,
+      index: number,
+    ) => Awaitable<boolean>,
+  ): AsyncPipeline<T> {
+    return this.through(source =>
+      filterAsync(source, predicate),
+    );
+  }
+
+  map<U>(
+    fn: (item: T, index: number) => Awaitable<U>,
+  ): AsyncPipeline<U> {
+    return this.through(source => mapAsync(source, fn));
+  }
+
+  /** Drops items whose key was already seen. */
+  unique(
+    keyFn: (item: T) => unknown = item => item,
+  ): AsyncPipeline<T> {
+    return this.through(source =>
+      uniqueAsync(source, keyFn),
+    );
+  }
+
+  /** Batches items into arrays of `size`; the last may be shorter. */
+  chunk(size: number): AsyncPipeline<T[]> {
+    assertChunkSize(size);
+    return this.through(source => chunkAsync(source, size));
+  }
+
+  /** Stops after `n` items and closes the source. */
+  take(n: number): AsyncPipeline<T> {
+    assertCount(n);
+    return this.through(source => takeAsync(source, n));
+  }
+
+  async toArray(): Promise<T[]> {
+    const result: T[] = [];
+    for await (const item of this) result.push(item);
+    return result;
+  }
+
+  async reduce<A>(
+    fn: (acc: A, item: T, index: number) => Awaitable<A>,
+    initial: A,
+  ): Promise<A> {
+    let acc = initial;
+    let index = 0;
+    for await (const item of this)
+      acc = await fn(acc, item, index++);
+    return acc;
+  }
+
+  /** Runs `fn` for each item, waiting for it before pulling the next. */
+  async forEach(
+    fn: (item: T, index: number) => Awaitable<void>,
+  ): Promise<void> {
+    let index = 0;
+    for await (const item of this) await fn(item, index++);
+  }
+
+  /** The first item, or `undefined` when empty. */
+  async first(): Promise<T | undefined> {
+    for await (const item of this) return item;
+    return undefined;
+  }
+
+  async groupBy<K extends PropertyKey>(
+    keyFn: KeyFn<T, K>,
+  ): Promise<KeyedRecord<K, T[]>> {
+    return groupBy(await this.toArray(), keyFn);
+  }
+
+  private through<U>(
+    op: (source: AsyncIterable<T>) => AsyncIterator<U>,
+  ): AsyncPipeline<U> {
+    const { source } = this;
+    return new AsyncPipeline({
+      [Symbol.asyncIterator]: () => op(source),
+    });
+  }
+}
+
+interface Pipe {
+  <T>(source: AsyncIterable<T>): AsyncPipeline<T>;
+  <T>(source: Iterable<T>): Pipeline<T>;
+}
+
+/**
+ * Starts a lazy pipeline. Sync iterables give a `Pipeline` with
+ * synchronous terminals; async iterables give an `AsyncPipeline`.
+ */
+export const pipe = (<T>(
+  source: Iterable<T> | AsyncIterable<T>,
+): Pipeline<T> | AsyncPipeline<T> =>
+  isAsyncIterable(source)
+    ? new AsyncPipeline(source)
+    : new Pipeline(source)) as Pipe;
@@ -0,0 +1,269 @@
+import { describe, expect, it } from 'bun:test';
+import { createFakeClock } from './clock.js';
+import {
+  allSettledLimited,
+  createDeferred,
+  Mutex,
+  raceWithAbort,
+  Semaphore,
+  TimeoutError,
+  withTimeout,
+} from './promise.js';
+
+const never = () => new Promise<never>(() => {});
+
+describe('withTimeout', () => {
+  it('resolves when the promise settles in time', async () => {
+    expect(
+      await withTimeout(Promise.resolve('ok'), 100),
+    ).toBe('ok');
+    await expect(
+      withTimeout(Promise.reject(new Error('bad')), 100),
+    ).rejects.toThrow('bad');
+  });
+
+  it('rejects with a TimeoutError and aborts the task', async () => {
+    const clock = createFakeClock();
+    let taskSignal: AbortSignal | undefined;
+    const pending = withTimeout(
+      signal => {
+        taskSignal = signal;
+        return never();
+      },
+      250,
+      { clock },
+    ).catch(e => e);
+    await clock.tick(250);
+    const error = await pending;
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.timeoutMs).toBe(250);
+    expect(taskSignal?.reason).toBe(error);
+  });
+
+  it('rejects with the abort reason', async () => {
+    const controller = new AbortController();
+    const pending = withTimeout(never(), 10_000, {
+      signal: controller.signal,
+    });
+    controller.abort(new Error('cancelled'));
+    await expect(pending).rejects.toThrow('cancelled');
+    await expect(
+      withTimeout(never(), 10, {
+        signal: AbortSignal.abort(),
+      }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('clears its timer once settled', async () => {
+    const clock = createFakeClock();
+    await withTimeout(Promise.resolve(1), 100, { clock });
+    expect(clock.pending).toBe(0);
+  });
+});
+
+describe('createDeferred', () => {
+  it('settles from the outside', async () => {
+    const deferred = createDeferred<number>();
+    deferred.resolve(7);
+    expect(await deferred.promise).toBe(7);
+    const failed = createDeferred<void>();
+    failed.reject(new Error('nope'));
+    await expect(failed.promise).rejects.toThrow('nope');
+  });
+});
+
+describe('Semaphore', () => {
+  it('limits concurrent holders', async () => {
+    const semaphore = new Semaphore(2);
+    let running = 0;
+    let peak = 0;
+    const gates = [1, 2, 3, 4].map(() =>
+      createDeferred<void>(),
+    );
+    const runs = gates.map(gate =>
+      semaphore.runExclusive(async () => {
+        peak = Math.max(peak, ++running);
+        await gate.promise;
+        running--;
+      }),
+    );
+    await Promise.resolve();
+    expect(semaphore.waiting).toBe(2);
+    for (const gate of gates) gate.resolve();
+    await Promise.all(runs);
+    expect(peak).toBe(2);
+    expect(semaphore.available).toBe(2);
+  });
+
+  it('serves waiters first in, first out', async () => {
+    const semaphore = new Semaphore(1);
+    const release = await semaphore.acquire();
+    const order: number[] = [];
+    const waiters = [1, 2, 3].map(n =>
+      semaphore.acquire().then(next => {
+        order.push(n);
+        next();
+      }),
+    );
+    expect(semaphore.tryAcquire()).toBeUndefined();
+    release();
+    await Promise.all(waiters);
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('ignores repeated releases', async () => {
+    const semaphore = new Semaphore(1);
+    const release = await semaphore.acquire();
+    release();
+    release();
+    expect(semaphore.available).toBe(1);
+  });
+
+  it('removes aborted waiters from the queue', async () => {
+    const semaphore = new Semaphore(1);
+    const release = await semaphore.acquire();
+    const controller = new AbortController();
+    const aborted = semaphore.acquire({
+      signal: controller.signal,
+    });
+    const next = semaphore.acquire();
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+    expect(semaphore.waiting).toBe(1);
+    release();
+    (await next)();
+    expect(semaphore.available).toBe(1);
+  });
+
+  it('releases the permit when the task throws', async () => {
+    const semaphore = new Semaphore(1);
+    await expect(
+      semaphore.runExclusive(() => {
+        throw new Error('fail');
+      }),
+    ).rejects.toThrow('fail');
+    expect(semaphore.available).toBe(1);
+  });
+
+  it('rejects invalid capacities', () => {
+    expect(() => new Semaphore(0)).toThrow(RangeError);
+    expect(() => new Semaphore(1.5)).toThrow(RangeError);
+  });
+});
+
+describe('Mutex', () => {
+  it('runs critical sections one at a time', async () => {
+    const mutex = new Mutex();
+    const log: string[] = [];
+    const section = (name: string) =>
+      mutex.runExclusive(async () => {
+        log.push(`${name}:start`);
+        await Promise.resolve();
+        log.push(`${name}:end`);
+      });
+    const pending = Promise.all([
+      section('a'),
+      section('b'),
+    ]);
+    expect(mutex.isLocked).toBe(true);
+    await pending;
+    expect(log).toEqual([
+      'a:start',
+      'a:end',
+      'b:start',
+      'b:end',
+    ]);
+    expect(mutex.isLocked).toBe(false);
+  });
+});
+
+describe('allSettledLimited', () => {
+  it('settles every task with limited concurrency', async () => {
+    let running = 0;
+    let peak = 0;
+    const task = (value: number) => async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      running--;
+      if (value === 2) throw new Error('two');
+      return value;
+    };
+    const results = await allSettledLimited(
+      [task(1), task(2), task(3)],
+      { concurrency: 2 },
+    );
+    expect(peak).toBe(2);
+    expect(results).toEqual([
+      { status: 'fulfilled', value: 1 },
+      { status: 'rejected', reason: new Error('two') },
+      { status: 'fulfilled', value: 3 },
+    ]);
+  });
+
+  it('rejects with the abort reason', async () => {
+    await expect(
+      allSettledLimited([async () => 1], {
+        signal: AbortSignal.abort(),
+      }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
+
+describe('raceWithAbort', () => {
+  it('settles with the winner and aborts the losers', async () => {
+    const signals: AbortSignal[] = [];
+    const fast = createDeferred<string>();
+    const result = raceWithAbort([
+      signal => {
+        signals.push(signal);
+        return never();
+      },
+      signal => {
+        signals.push(signal);
+        return fast.promise;
+      },
+    ]);
+    fast.resolve('fast');
+    expect(await result).toBe('fast');
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[0].reason).toMatchObject({
+      name: 'AbortError',
+    });
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  it('rejects when the first task rejects', async () => {
+    await expect(
+      raceWithAbort([
+        () => Promise.reject(new Error('first')),
+        never,
+      ]),
+    ).rejects.toThrow('first');
+  });
+
+  it('aborts every task when the signal aborts', async () => {
+    const controller = new AbortController();
+    const signals: AbortSignal[] = [];
+    const result = raceWithAbort(
+      [1, 2].map(() => (signal: AbortSignal) => {
+        signals.push(signal);
+        return never();
+      }),
+      { signal: controller.signal },
+    );
+    const reason = new Error('stop');
+    controller.abort(reason);
+    await expect(result).rejects.toBe(reason);
+    expect(signals.every(s => s.reason === reason)).toBe(
+      true,
+    );
+  });
+
+  it('rejects an empty race', async () => {
+    await expect(raceWithAbort([])).rejects.toBeInstanceOf(
+      RangeError,
+    );
+  });
+});
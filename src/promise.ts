@@ -0,0 +1,325 @@
+import { abortReason } from './abort.js';
+import {
+  type Clock,
+  systemClock,
+  type TimerHandle,
+} from './clock.js';
+import {
+  type MapConcurrentOptions,
+  mapConcurrent,
+} from './concurrency.js';
+import {
+  type Duration,
+  toMilliseconds,
+} from './duration.js';
+import type { AcquireOptions } from './rate-limiter.js';
+
+/**
+ * Thrown when an operation exceeds its time limit, e.g. by
+ * `withTimeout` or an attempt that exceeded `attemptTimeoutMs`.
+ */
+export class TimeoutError extends Error {
+  override readonly name = 'TimeoutError';
+
+  constructor(readonly timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+  }
+}
+
+/**
+ * Work that can be cancelled: either a promise, or a function that
+ * receives a signal to stop early.
+ */
+export type Abortable<T> =
+  | PromiseLike<T>
+  | ((signal: AbortSignal) => PromiseLike<T>);
+
+export interface WithTimeoutOptions {
+  /** Rejects with the abort reason when aborted. */
+  signal?: AbortSignal;
+  clock?: Clock;
+}
+
+/**
+ * Rejects with a `TimeoutError` if `task` hasn't settled within
+ * `timeout`.
+ * A function task receives a signal that aborts with that
+ * `TimeoutError`, or with the abort reason of `signal`. `Infinity`
+ * disables the time limit.
+ */
+export const withTimeout = <T>(
+  task: Abortable<T>,
+  timeout: Duration,
+  { signal, clock = systemClock }: WithTimeoutOptions = {},
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const ms = toMilliseconds(timeout);
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const controller = new AbortController();
+    let timer: TimerHandle;
+    const onAbort = () =>
+      controller.abort(abortReason(signal as AbortSignal));
+    const cleanup = () => {
+      clock.clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    controller.signal.addEventListener(
+      'abort',
+      () => {
+        cleanup();
+        reject(controller.signal.reason);
+      },
+      { once: true },
+    );
+    signal?.addEventListener('abort', onAbort, {
+      once: true,
+    });
+    if (Number.isFinite(ms))
+      timer = clock.setTimeout(
+        () => controller.abort(new TimeoutError(ms)),
+        ms,
+      );
+
+    try {
+      const promise =
+        typeof task === 'function'
+          ? task(controller.signal)
+          : task;
+      Promise.resolve(promise).then(
+        value => {
+          cleanup();
+          resolve(value);
+        },
+        error => {
+          cleanup();
+          reject(error);
+        },
+      );
+    } catch (error) {
+      cleanup();
+      reject(error);
+    }
+  });
+
+/**
+ * A promise together with the functions that settle it.
+ */
+export interface Deferred<T> {
+  readonly promise: Promise<T>;
+  resolve(value: T | PromiseLike<T>): void;
+  reject(reason?: unknown): void;
+}
+
+/**
+ * Creates a promise that is settled from the outside.
+ */
+export const createDeferred = <T>(): Deferred<T> => {
+  let resolve!: Deferred<T>['resolve'];
+  let reject!: Deferred<T>['reject'];
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+/**
+ * Gives a permit back. Calling it more than once has no effect.
+ */
+export type Release = () => void;
+
+interface Waiter {
+  resolve: (release: Release) => void;
+  cleanup: () => void;
+}
+
+/**
+ * Limits how many holders may run at once. Waiters are served first
+ * in, first out, and `tryAcquire` never jumps the queue.
+ */
+export class Semaphore {
+  private readonly queue: Waiter[] = [];
+  private permits: number;
+
+  constructor(readonly capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1)
+      throw new RangeError(
+        'capacity must be a positive integer',
+      );
+    this.permits = capacity;
+  }
+
+  /** Permits free right now. */
+  get available(): number {
+    return this.permits;
+  }
+
+  /** Number of queued `acquire` calls. */
+  get waiting(): number {
+    return this.queue.length;
+  }
+
+  /** Takes a permit if one is free and nobody is waiting. */
+  tryAcquire(): Release | undefined {
+    if (this.permits === 0 || this.queue.length > 0)
+      return undefined;
+    this.permits--;
+    return this.createRelease();
+  }
+
+  /**
+   * Waits for a permit. Aborting `signal` leaves the queue and rejects
+   * with the abort reason.
+   */
+  acquire({
+    signal,
+  }: AcquireOptions = {}): Promise<Release> {
+    if (signal?.aborted)
+      return Promise.reject(abortReason(signal));
+    const release = this.tryAcquire();
+    if (release) return Promise.resolve(release);
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        this.queue.splice(this.queue.indexOf(waiter), 1);
+        reject(abortReason(signal as AbortSignal));
+      };
+      const waiter: Waiter = {
+        resolve,
+        cleanup: () =>
+          signal?.removeEventListener('abort', onAbort),
+      };
+      this.queue.push(waiter);
+      signal?.addEventListener('abort', onAbort, {
+        once: true,
+      });
+    });
+  }
+
+  /** Runs `fn` while holding a permit. */
+  async runExclusive<T>(
+    fn: () => T | Promise<T>,
+    options?: AcquireOptions,
+  ): Promise<T> {
+    const release = await this.acquire(options);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  private createRelease(): Release {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = this.queue.shift();
+      if (!next) {
+        this.permits++;
+        return;
+      }
+      next.cleanup();
+      next.resolve(this.createRelease());
+    };
+  }
+}
+
+/**
+ * A semaphore with a single permit.
+ */
+export class Mutex extends Semaphore {
+  constructor() {
+    super(1);
+  }
+
+  get isLocked(): boolean {
+    return this.available === 0;
+  }
+}
+
+/**
+ * Like `Promise.allSettled`, but runs at most `concurrency` tasks at a
+ * time. Results keep input order.
+ */
+export const allSettledLimited = <T>(
+  tasks:
+    | Iterable<() => T | Promise<T>>
+    | AsyncIterable<() => T | Promise<T>>,
+  options: Omit<MapConcurrentOptions, 'stopOnError'> = {},
+): Promise<PromiseSettledResult<T>[]> =>
+  mapConcurrent(
+    tasks,
+    async (task): Promise<PromiseSettledResult<T>> => {
+      try {
+        return { status: 'fulfilled', value: await task() };
+      } catch (reason) {
+        return { status: 'rejected', reason };
+      }
+    },
+    options,
+  );
+
+/**
+ * Starts every task and settles like the first one to settle. The
+ * others are aborted through their signal with an `AbortError`.
+ * Aborting `signal` aborts every task.
+ */
+export const raceWithAbort = <T>(
+  tasks: Iterable<(signal: AbortSignal) => PromiseLike<T>>,
+  { signal }: { signal?: AbortSignal } = {},
+): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    const list = [...tasks];
+    if (list.length === 0) {
+      reject(new RangeError('tasks must not be empty'));
+      return;
+    }
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const controllers = list.map(
+      () => new AbortController(),
+    );
+    let settled = false;
+
+    const settle = (
+      winner: number,
+      reason: unknown,
+      done: () => void,
+    ) => {
+      if (settled) return;
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      controllers.forEach((controller, i) => {
+        if (i !== winner) controller.abort(reason);
+      });
+      done();
+    };
+    const lostRace = () =>
+      new DOMException(
+        'Another task settled first.',
+        'AbortError',
+      );
+    const onAbort = () => {
+      const reason = abortReason(signal as AbortSignal);
+      settle(-1, reason, () => reject(reason));
+    };
+    signal?.addEventListener('abort', onAbort, {
+      once: true,
+    });
+
+    list.forEach((task, i) => {
+      new Promise<T>(res =>
+        res(task(controllers[i].signal)),
+      ).then(
+        value =>
+          settle(i, lostRace(), () => resolve(value)),
+        error => settle(i, lostRace(), () => reject(error)),
+      );
+    });
+  });
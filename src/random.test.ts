@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  createCryptoRandom,
+  createRandom,
+  defaultRandom,
+} from './random.js';
+
+const UUID_V4 =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+describe('createRandom', () => {
+  it('is deterministic for a seed', () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const seqA = Array.from({ length: 5 }, () => a.next());
+    const seqB = Array.from({ length: 5 }, () => b.next());
+    expect(seqA).toEqual(seqB);
+  });
+
+  it('differs between seeds', () => {
+    expect(createRandom('a').next()).not.toBe(
+      createRandom('b').next(),
+    );
+  });
+
+  it('produces values in range', () => {
+    const rng = createRandom(1);
+    for (let i = 0; i < 200; i++) {
+      const n = rng.next();
+      expect(n).toBeGreaterThanOrEqual(0);
+      expect(n).toBeLessThan(1);
+      const int = rng.int(-3, 3);
+      expect(int).toBeGreaterThanOrEqual(-3);
+      expect(int).toBeLessThanOrEqual(3);
+      const float = rng.float(5, 6);
+      expect(float).toBeGreaterThanOrEqual(5);
+      expect(float).toBeLessThan(6);
+    }
+  });
+
+  it('covers every integer in a small range', () => {
+    const rng = createRandom('cover');
+    const seen = new Set<number>();
+    for (let i = 0; i < 100; i++) seen.add(rng.int(1, 4));
+    expect([...seen].sort()).toEqual([1, 2, 3, 4]);
+  });
+
+  it('validates int and float bounds', () => {
+    const rng = createRandom(1);
+    expect(() => rng.int(1.5, 2)).toThrow(TypeError);
+    expect(() => rng.int(2, 1)).toThrow(RangeError);
+    expect(() => rng.float(2, 1)).toThrow(RangeError);
+  });
+
+  it('respects bool probability', () => {
+    const rng = createRandom(7);
+    expect(rng.bool(0)).toBe(false);
+    expect(rng.bool(1)).toBe(true);
+  });
+
+  it('shuffles without losing or mutating items', () => {
+    const items = [1, 2, 3, 4, 5, 6, 7, 8];
+    const shuffled = createRandom(3).shuffle(items);
+    expect(shuffled).not.toBe(items);
+    expect([...shuffled].sort()).toEqual(items);
+    expect(items).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(createRandom(3).shuffle(items)).toEqual(
+      shuffled,
+    );
+  });
+
+  it('samples distinct items', () => {
+    const items = ['a', 'b', 'c', 'd', 'e'];
+    const sample = createRandom(9).sample(items, 3);
+    expect(sample).toHaveLength(3);
+    expect(new Set(sample).size).toBe(3);
+    for (const item of sample)
+      expect(items).toContain(item);
+    expect(createRandom(9).sample(items, 0)).toEqual([]);
+    expect(() => createRandom(9).sample(items, 6)).toThrow(
+      RangeError,
+    );
+  });
+
+  it('picks by weight', () => {
+    const rng = createRandom('weights');
+    const counts = { a: 0, b: 0, c: 0 };
+    const items = ['a', 'b', 'c'] as const;
+    for (let i = 0; i < 1000; i++)
+      counts[rng.weightedPick(items, [1, 0, 3])]++;
+    expect(counts.b).toBe(0);
+    expect(counts.c).toBeGreaterThan(counts.a * 2);
+    expect(
+      rng.weightedPick(
+        [{ w: 0 }, { w: 5 }],
+        item => item.w,
+      ),
+    ).toEqual({ w: 5 });
+  });
+
+  it('validates weights', () => {
+    const rng = createRandom(1);
+    expect(() => rng.weightedPick([1, 2], [1])).toThrow(
+      RangeError,
+    );
+    expect(() => rng.weightedPick([1], [-1])).toThrow(
+      RangeError,
+    );
+    expect(() => rng.weightedPick([1], [0])).toThrow(
+      RangeError,
+    );
+  });
+
+  it('generates reproducible v4 uuids', () => {
+    const id = createRandom(5).uuid();
+    expect(id).toMatch(UUID_V4);
+    expect(createRandom(5).uuid()).toBe(id);
+  });
+});
+
+describe('createCryptoRandom', () => {
+  it('produces values in range', () => {
+    const rng = createCryptoRandom();
+    for (let i = 0; i < 100; i++) {
+      const n = rng.next();
+      expect(n).toBeGreaterThanOrEqual(0);
+      expect(n).toBeLessThan(1);
+    }
+    expect(rng.uuid()).toMatch(UUID_V4);
+  });
+});
+
+describe('defaultRandom', () => {
+  it('exposes the full generator API', () => {
+    expect(defaultRandom.int(2, 2)).toBe(2);
+    expect(defaultRandom.uuid()).toMatch(UUID_V4);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * A random number generator with helpers for common sampling tasks.
+ */
+export interface Random {
+  /** Random float in `[0, 1)`. */
+  next(): number;
+  /** Random integer between min (inclusive) and max (inclusive). */
+  int(min: number, max: number): number;
+  /** Random float between min (inclusive) and max (exclusive). */
+  float(min?: number, max?: number): number;
+  /** `true` with the given probability. Defaults to 0.5. */
+  bool(probability?: number): boolean;
+  /** Returns a shuffled copy of `items`. */
+  shuffle<T>(items: readonly T[]): T[];
+  /** Picks `n` distinct elements of `items` in random order. */
+  sample<T>(items: readonly T[], n: number): T[];
+  /** Picks one element, with odds proportional to its weight. */
+  weightedPick<T>(
+    items: readonly T[],
+    weights: readonly number[] | ((item: T) => number),
+  ): T;
+  /** Random RFC 4122 version 4 UUID. */
+  uuid(): string;
+}
+
+const UINT32 = 0x1_0000_0000;
+
+/**
+ * Hashes a seed into four 32-bit words (cyrb128).
+ */
+const hashSeed = (seed: string): number[] => {
+  let h1 = 1779033703;
+  let h2 = 3144134277;
+  let h3 = 1013904242;
+  let h4 = 2773480762;
+  for (let i = 0; i < seed.length; i++) {
+    const k = seed.charCodeAt(i);
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067);
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233);
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213);
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179);
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067);
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233);
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213);
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179);
+  return [
+    (h1 ^ h2 ^ h3 ^ h4) >>> 0,
+    (h2 ^ h1) >>> 0,
+    (h3 ^ h1) >>> 0,
+    (h4 ^ h1) >>> 0,
+  ];
+};
+
+/**
+ * Small fast counter PRNG (sfc32) seeded from `seed`.
+ */
+const sfc32 = (seed: string): (() => number) => {
+  let [a, b, c, d] = hashSeed(seed);
+  return () => {
+    const t = (((a + b) | 0) + d) | 0;
+    d = (d + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    return (t >>> 0) / UINT32;
+  };
+};
+
+const cryptoNext = (): number => {
+  const [high, low] = globalThis.crypto.getRandomValues(
+    new Uint32Array(2),
+  );
+  // 53 random bits, the full precision of a double.
+  return (
+    ((high >>> 5) * 0x400_0000 + (low >>> 6)) / 2 ** 53
+  );
+};
+
+const resolveWeights = <T>(
+  items: readonly T[],
+  weights: readonly number[] | ((item: T) => number),
+): number[] => {
+  const resolved =
+    typeof weights === 'function'
+      ? items.map(weights)
+      : [...weights];
+  if (resolved.length !== items.length)
+    throw new RangeError(
+      'weights must have the same length as items',
+    );
+  if (resolved.some(w => !(w >= 0) || !Number.isFinite(w)))
+    throw new RangeError(
+      'weights must be finite non-negative numbers',
+    );
+  return resolved;
+};
+
+const createFromSource = (next: () => number): Random => {
+  const int = (min: number, max: number): number => {
+    if (!Number.isInteger(min) || !Number.isInteger(max))
+      throw new TypeError('min and max must be integers');
+    if (min > max)
+      throw new RangeError(
+        'min must be less than or equal to max',
+      );
+    return Math.floor(next() * (max - min + 1)) + min;
+  };
+
+  const shuffle = <T>(items: readonly T[]): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = int(0, i);
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  };
+
+  return {
+    next,
+    int,
+    float(min = 0, max = 1) {
+      if (min > max)
+        throw new RangeError(
+          'min must be less than or equal to max',
+        );
+      return min + next() * (max - min);
+    },
+    bool: (probability = 0.5) => next() < probability,
+    shuffle,
+    sample<T>(items: readonly T[], n: number): T[] {
+      if (!Number.isInteger(n) || n < 0 || n > items.length)
+        throw new RangeError(
+          'n must be an integer between 0 and items.length',
+        );
+      const pool = [...items];
+      for (let i = 0; i < n; i++) {
+        const j = int(i, pool.length - 1);
+        [pool[i], pool[j]] = [pool[j], pool[i]];
+      }
+      return pool.slice(0, n);
+    },
+    weightedPick<T>(
+      items: readonly T[],
+      weights: readonly number[] | ((item: T) => number),
+    ): T {
+      const resolved = resolveWeights(items, weights);
+      const total = resolved.reduce((sum, w) => sum + w, 0);
+      if (!(total > 0))
+        throw new RangeError(
+          'total weight must be positive',
+        );
+      let target = next() * total;
+      for (let i = 0; i < items.length; i++) {
+        target -= resolved[i];
+        if (target < 0) return items[i];
+      }
+      // Floating point leftovers land on the last weighted item.
+      return items[resolved.findLastIndex(w => w > 0)];
+    },
+    uuid() {
+      const bytes = Array.from({ length: 16 }, () =>
+        int(0, 255),
+      );
+      bytes[6] = (bytes[6] & 0x0f) | 0x40;
+      bytes[8] = (bytes[8] & 0x3f) | 0x80;
+      const hex = bytes.map(b =>
+        b.toString(16).padStart(2, '0'),
+      );
+      return [
+        hex.slice(0, 4),
+        hex.slice(4, 6),
+        hex.slice(6, 8),
+        hex.slice(8, 10),
+        hex.slice(10, 16),
+      ]
+        .map(part => part.join(''))
+        .join('-');
+    },
+  };
+};
+
+/**
+ * Creates a deterministic generator. The same seed always produces the
+ * same sequence, which makes fixtures and simulations reproducible.
+ * Not suitable for security-sensitive values; use `createCryptoRandom`.
+ */
+export const createRandom = (
+  seed: number | string,
+): Random => createFromSource(sfc32(String(seed)));
+
+/**
+ * Creates a generator backed by `crypto.getRandomValues`.
+ */
+export const createCryptoRandom = (): Random =>
+  createFromSource(cryptoNext);
+
+/**
+ * Generator backed by `Math.random`.
+ */
+export const defaultRandom: Random = createFromSource(() =>
+  Math.random(),
+);
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'bun:test';
+import { createFakeClock } from './clock.js';
+import { createRateLimiter } from './rate-limiter.js';
+
+describe('createRateLimiter', () => {
+  it('starts with a full bucket', () => {
+    const limiter = createRateLimiter({
+      tokensPerInterval: 2,
+      interval: 1000,
+      clock: createFakeClock(),
+    });
+    expect(limiter.tryAcquire()).toBe(true);
+    expect(limiter.tryAcquire()).toBe(true);
+    expect(limiter.tryAcquire()).toBe(false);
+  });
+
+  it('refills tokens over time', async () => {
+    const clock = createFakeClock();
+    const limiter = createRateLimiter({
+      tokensPerInterval: 10,
+      interval: 1000,
+      clock,
+    });
+    expect(limiter.tryAcquire(10)).toBe(true);
+    await clock.tick(500);
+    expect(limiter.available).toBeCloseTo(5);
+    expect(limiter.tryAcquire(6)).toBe(false);
+    expect(limiter.tryAcquire(5)).toBe(true);
+  });
+
+  it('caps refills at burst', async () => {
+    const clock = createFakeClock();
+    const limiter = createRateLimiter({
+      tokensPerInterval: 1,
+      interval: 10,
+      burst: 3,
+      clock,
+    });
+    await clock.tick(1000);
+    expect(limiter.available).toBe(3);
+  });
+
+  it('queues acquire calls in order', async () => {
+    const clock = createFakeClock();
+    const limiter = createRateLimiter({
+      tokensPerInterval: 1,
+      interval: 100,
+      clock,
+    });
+    const order: [number, number][] = [];
+    const calls = [1, 2, 3].map(id =>
+      limiter.acquire().then(() => {
+        order.push([id, clock.now()]);
+      }),
+    );
+    expect(limiter.waiting).toBe(2);
+    await clock.runAll();
+    await Promise.all(calls);
+    expect(order).toEqual([
+      [1, 0],
+      [2, 100],
+      [3, 200],
+    ]);
+  });
+
+  it('does not let tryAcquire jump the queue', async () => {
+    const clock = createFakeClock();
+    const limiter = createRateLimiter({
+      tokensPerInterval: 2,
+      interval: 100,
+      clock,
+    });
+    limiter.tryAcquire(2);
+    const pending = limiter.acquire(2);
+    await clock.tick(50);
+    expect(limiter.tryAcquire()).toBe(false);
+    await clock.tick(50);
+    await pending;
+  });
+
+  it('removes aborted requests from the queue', async () => {
+    const clock = createFakeClock();
+    const limiter = createRateLimiter({
+      tokensPerInterval: 1,
+      interval: 100,
+      clock,
+    });
+    limiter.tryAcquire();
+    const controller = new AbortController();
+    const aborted = limiter.acquire(1, {
+      signal: controller.signal,
+    });
+    const next = limiter.acquire();
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+    expect(limiter.waiting).toBe(1);
+    await clock.tick(100);
+    await next;
+    expect(limiter.waiting).toBe(0);
+  });
+
+  it('wraps functions', async () => {
+    const clock = createFakeClock();
+    const limiter = createRateLimiter({
+      tokensPerInterval: 1,
+      interval: 1000,
+      clock,
+    });
+    const double = limiter.wrap(async (n: number) => n * 2);
+    const results = Promise.all([double(1), double(2)]);
+    await clock.runAll();
+    expect(await results).toEqual([2, 4]);
+    expect(clock.now()).toBe(1000);
+  });
+
+  it('validates options and costs', () => {
+    expect(() =>
+      createRateLimiter({
+        tokensPerInterval: 0,
+        interval: 1,
+      }),
+    ).toThrow(RangeError);
+    const limiter = createRateLimiter({
+      tokensPerInterval: 1,
+      interval: 1,
+    });
+    expect(() => limiter.tryAcquire(2)).toThrow(RangeError);
+    expect(() => limiter.acquire(0)).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,187 @@
+import { abortReason } from './abort.js';
+import {
+  type Clock,
+  systemClock,
+  type TimerHandle,
+} from './clock.js';
+import {
+  type Duration,
+  toMilliseconds,
+} from './duration.js';
+
+export interface RateLimiterOptions {
+  /** Tokens added every `interval`. */
+  tokensPerInterval: number;
+  /** Refill interval. */
+  interval: Duration;
+  /** Bucket capacity. Defaults to `tokensPerInterval`. */
+  burst?: number;
+  /** Time and timer source. Defaults to `systemClock`. */
+  clock?: Clock;
+}
+
+export interface AcquireOptions {
+  /** Removes the request from the queue and rejects with the abort reason. */
+  signal?: AbortSignal;
+}
+
+/**
+ * A token-bucket rate limiter. Tokens refill continuously and waiting
+ * requests are served first in, first out.
+ */
+export interface RateLimiter {
+  /** Waits until `n` tokens are available and takes them. */
+  acquire(
+    n?: number,
+    options?: AcquireOptions,
+  ): Promise<void>;
+  /** Takes `n` tokens if available right now, without queueing. */
+  tryAcquire(n?: number): boolean;
+  /** Returns a version of `fn` that takes `cost` tokens per call. */
+  wrap<A extends unknown[], R>(
+    fn: (...args: A) => R | Promise<R>,
+    cost?: number,
+  ): (...args: A) => Promise<R>;
+  /** Tokens currently in the bucket. */
+  readonly available: number;
+  /** Number of queued `acquire` calls. */
+  readonly waiting: number;
+}
+
+interface Waiter {
+  n: number;
+  resolve: () => void;
+  cleanup: () => void;
+}
+
+/** Absorbs floating point drift when comparing refilled tokens. */
+const EPSILON = 1e-9;
+
+/**
+ * Creates a token-bucket rate limiter.
+ */
+export const createRateLimiter = ({
+  tokensPerInterval,
+  interval: refillInterval,
+  burst = tokensPerInterval,
+  clock = systemClock,
+}: RateLimiterOptions): RateLimiter => {
+  const interval = toMilliseconds(refillInterval);
+  if (!(tokensPerInterval > 0))
+    throw new RangeError(
+      'tokensPerInterval must be positive',
+    );
+  if (!(interval > 0))
+    throw new RangeError('interval must be positive');
+  if (!(burst >= 1))
+    throw new RangeError('burst must be at least 1');
+
+  const rate = tokensPerInterval / interval;
+  const queue: Waiter[] = [];
+  let tokens = burst;
+  let lastRefill = clock.now();
+  let timer: TimerHandle | undefined;
+
+  const assertCost = (n: number) => {
+    if (!(n > 0))
+      throw new RangeError('n must be positive');
+    if (n > burst)
+      throw new RangeError(
+        `n must not exceed burst (${burst})`,
+      );
+  };
+
+  const refill = () => {
+    const now = clock.now();
+    tokens = Math.min(
+      burst,
+      tokens + (now - lastRefill) * rate,
+    );
+    lastRefill = now;
+  };
+
+  const take = (n: number): boolean => {
+    if (tokens + EPSILON < n) return false;
+    tokens = Math.max(0, tokens - n);
+    return true;
+  };
+
+  const schedule = () => {
+    clock.clearTimeout(timer);
+    timer = undefined;
+    if (queue.length === 0) return;
+    const wait = Math.max(
+      1,
+      Math.ceil((queue[0].n - tokens) / rate),
+    );
+    timer = clock.setTimeout(drain, wait);
+  };
+
+  const drain = () => {
+    refill();
+    while (queue.length > 0 && take(queue[0].n)) {
+      const waiter = queue.shift() as Waiter;
+      waiter.cleanup();
+      waiter.resolve();
+    }
+    schedule();
+  };
+
+  const acquire = (
+    n = 1,
+    { signal }: AcquireOptions = {},
+  ): Promise<void> => {
+    assertCost(n);
+    if (signal?.aborted)
+      return Promise.reject(abortReason(signal));
+    refill();
+    if (queue.length === 0 && take(n))
+      return Promise.resolve();
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = queue.indexOf(waiter);
+        if (index === -1) return;
+        queue.splice(index, 1);
+        reject(abortReason(signal as AbortSignal));
+        if (index === 0) drain();
+      };
+      const waiter: Waiter = {
+        n,
+        resolve,
+        cleanup: () =>
+          signal?.removeEventListener('abort', onAbort),
+      };
+      signal?.addEventListener('abort', onAbort, {
+        once: true,
+      });
+      queue.push(waiter);
+      if (queue.length === 1) schedule();
+    });
+  };
+
+  return {
+    acquire,
+    tryAcquire(n = 1) {
+      assertCost(n);
+      refill();
+      return queue.length === 0 && take(n);
+    },
+    wrap:
+      <A extends unknown[], R>(
+        fn: (...args: A) => R | Promise<R>,
+        cost = 1,
+      ) =>
+      async (...args: A): Promise<R> => {
+        await acquire(cost);
+        return fn(...args);
+      },
+    get available() {
+      refill();
+      return tokens;
+    },
+    get waiting() {
+      return queue.length;
+    },
+  };
+};
@@ -0,0 +1,120 @@
+import {
+  describe,
+  expect,
+  expectTypeOf,
+  it,
+} from 'bun:test';
+import {
+  err,
+  ok,
+  type Result,
+  tryCatch,
+  tryCatchAsync,
+} from './result.js';
+
+const parse = (input: string): Result<number, string> => {
+  const value = Number(input);
+  return Number.isNaN(value)
+    ? err(`not a number: ${input}`)
+    : ok(value);
+};
+
+describe('Result', () => {
+  it('narrows on the ok flag', () => {
+    const result = parse('4');
+    if (result.ok) expectTypeOf(result.value).toBeNumber();
+    else expectTypeOf(result.error).toBeString();
+    expect(result).toMatchObject({ ok: true, value: 4 });
+    expect(parse('x')).toMatchObject({
+      ok: false,
+      error: 'not a number: x',
+    });
+  });
+
+  it('maps values and errors', () => {
+    expect(
+      parse('4')
+        .map(n => n * 2)
+        .unwrapOr(0),
+    ).toBe(8);
+    expect(
+      parse('x')
+        .map(n => n * 2)
+        .unwrapOr(0),
+    ).toBe(0);
+    const mapped = parse('x').mapErr(e => new Error(e));
+    expect(mapped.ok).toBe(false);
+    if (!mapped.ok)
+      expect(mapped.error.message).toBe('not a number: x');
+    expect(
+      parse('4')
+        .mapErr(e => e.length)
+        .unwrapOr(0),
+    ).toBe(4);
+  });
+
+  it('chains with andThen', () => {
+    const positive = (n: number): Result<number, Error> =>
+      n > 0 ? ok(n) : err(new Error('not positive'));
+    const chained = parse('-1').andThen(positive);
+    expectTypeOf(chained).toEqualTypeOf<
+      Result<number, string | Error>
+    >();
+    expect(chained.ok).toBe(false);
+    expect(parse('x').andThen(positive)).toMatchObject({
+      error: 'not a number: x',
+    });
+    expect(parse('3').andThen(positive).unwrapOr(0)).toBe(
+      3,
+    );
+  });
+
+  it('matches both branches', () => {
+    const render = (input: string) =>
+      parse(input).match({
+        ok: n => `value ${n}`,
+        err: e => `error ${e}`,
+      });
+    expect(render('1')).toBe('value 1');
+    expect(render('?')).toBe('error not a number: ?');
+  });
+});
+
+describe('tryCatch', () => {
+  it('captures thrown errors', () => {
+    const result = tryCatch(() => JSON.parse('{'));
+    expect(result.ok).toBe(false);
+    if (!result.ok)
+      expect(result.error).toBeInstanceOf(SyntaxError);
+    expect(
+      tryCatch(() => JSON.parse('1')).unwrapOr(0),
+    ).toBe(1);
+  });
+
+  it('maps the error', () => {
+    const result = tryCatch(
+      () => {
+        throw new Error('boom');
+      },
+      error => (error as Error).message,
+    );
+    expect(result).toMatchObject({
+      ok: false,
+      error: 'boom',
+    });
+  });
+});
+
+describe('tryCatchAsync', () => {
+  it('captures rejections', async () => {
+    const result = await tryCatchAsync(() =>
+      Promise.reject(new Error('offline')),
+    );
+    expect(result).toMatchObject({ ok: false });
+    expect(
+      (await tryCatchAsync(async () => 'data')).unwrapOr(
+        '',
+      ),
+    ).toBe('data');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Handlers for `Result.match`.
+ */
+export interface MatchHandlers<T, E, A, B> {
+  ok: (value: T) => A;
+  err: (error: E) => B;
+}
+
+/**
+ * Successful branch of a `Result`.
+ */
+export class Ok<T, E = never> {
+  readonly ok = true;
+
+  constructor(readonly value: T) {}
+
+  map<U>(fn: (value: T) => U): Result<U, E> {
+    return new Ok(fn(this.value));
+  }
+
+  mapErr<F>(_fn: (error: E) => F): Result<T, F> {
+    return new Ok(this.value);
+  }
+
+  andThen<U, F>(
+    fn: (value: T) => Result<U, F>,
+  ): Result<U, E | F> {
+    return fn(this.value);
+  }
+
+  unwrapOr<U>(_fallback: U): T | U {
+    return this.value;
+  }
+
+  match<A, B>(handlers: MatchHandlers<T, E, A, B>): A | B {
+    return handlers.ok(this.value);
+  }
+}
+
+/**
+ * Failed branch of a `Result`.
+ */
+export class Err<T, E> {
+  readonly ok = false;
+
+  constructor(readonly error: E) {}
+
+  map<U>(_fn: (value: T) => U): Result<U, E> {
+    return new Err(this.error);
+  }
+
+  mapErr<F>(fn: (error: E) => F): Result<T, F> {
+    return new Err(fn(this.error));
+  }
+
+  andThen<U, F>(
+    _fn: (value: T) => Result<U, F>,
+  ): Result<U, E | F> {
+    return new Err(this.error);
+  }
+
+  unwrapOr<U>(fallback: U): T | U {
+    return fallback;
+  }
+
+  match<A, B>(handlers: MatchHandlers<T, E, A, B>): A | B {
+    return handlers.err(this.error);
+  }
+}
+
+/**
+ * Either a value or an error, checked through the `ok` flag instead of
+ * try/catch.
+ */
+export type Result<T, E = Error> = Ok<T, E> | Err<T, E>;
+
+export const ok = <T, E = never>(value: T): Result<T, E> =>
+  new Ok(value);
+
+export const err = <E, T = never>(error: E): Result<T, E> =>
+  new Err(error);
+
+/**
+ * Runs `fn` and captures a thrown error in the `err` branch, optionally
+ * mapped by `mapError`.
+ */
+export const tryCatch = <T, E = unknown>(
+  fn: () => T,
+  mapError: (error: unknown) => E = error => error as E,
+): Result<T, E> => {
+  try {
+    return ok(fn());
+  } catch (error) {
+    return err(mapError(error));
+  }
+};
+
+/**
+ * Awaits `fn` and captures a rejection in the `err` branch, optionally
+ * mapped by `mapError`.
+ */
+export const tryCatchAsync = async <T, E = unknown>(
+  fn: () => Promise<T>,
+  mapError: (error: unknown) => E = error => error as E,
+): Promise<Result<T, E>> => {
+  try {
+    return ok(await fn());
+  } catch (error) {
+    return err(mapError(error));
+  }
+};
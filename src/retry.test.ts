@@ -0,0 +1,226 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { createFakeClock } from './clock.js';
+import { TimeoutError } from './promise.js';
+import { RetryError, retry, retrySafe } from './retry.js';
+
+const failing = (message = 'fail') =>
+  mock(() => Promise.reject(new Error(message)));
+
+describe('retry options', () => {
+  it('keeps the positional form working', async () => {
+    const fn = failing();
+    await expect(retry(fn, 1, 0)).rejects.toBeInstanceOf(
+      RetryError,
+    );
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('passes the attempt number to fn', async () => {
+    const seen: number[] = [];
+    const result = await retry(
+      async attempt => {
+        seen.push(attempt);
+        if (attempt < 3) throw new Error('nope');
+        return attempt;
+      },
+      { retries: 5, delayMs: 0 },
+    );
+    expect(result).toBe(3);
+    expect(seen).toEqual([1, 2, 3]);
+  });
+
+  it('records every attempt in RetryError', async () => {
+    let calls = 0;
+    const error = await retry(
+      () => Promise.reject(new Error(`fail ${++calls}`)),
+      { retries: 2, delayMs: 0 },
+    ).catch(e => e);
+    expect(error).toBeInstanceOf(RetryError);
+    expect(error.attempts).toHaveLength(3);
+    expect(
+      error.errors.map((e: Error) => e.message),
+    ).toEqual(['fail 1', 'fail 2', 'fail 3']);
+    expect(error.lastError.message).toBe('fail 3');
+    expect(error.message).toContain('fail 3');
+    expect(error.attempts[0].delayMs).toBe(0);
+    expect(error.attempts[2].delayMs).toBeUndefined();
+  });
+
+  it('grows delays exponentially up to maxDelayMs', async () => {
+    const delays: number[] = [];
+    await retry(failing(), {
+      retries: 4,
+      delayMs: 1,
+      backoff: 'exponential',
+      maxDelayMs: 5,
+      onRetry: (_e, _a, ms) => delays.push(ms),
+    }).catch(() => {});
+    expect(delays).toEqual([1, 2, 4, 5]);
+  });
+
+  it('keeps decorrelated jitter within bounds', async () => {
+    const delays: number[] = [];
+    await retry(failing(), {
+      retries: 5,
+      delayMs: 1,
+      backoff: 'decorrelated-jitter',
+      maxDelayMs: 10,
+      onRetry: (_e, _a, ms) => delays.push(ms),
+    }).catch(() => {});
+    expect(delays).toHaveLength(5);
+    for (const ms of delays) {
+      expect(ms).toBeGreaterThanOrEqual(1);
+      expect(ms).toBeLessThanOrEqual(10);
+    }
+  });
+
+  it('stops when shouldRetry returns false', async () => {
+    const fn = failing('400');
+    const shouldRetry = mock(() => false);
+    const error = await retry(fn, {
+      delayMs: 0,
+      shouldRetry,
+    }).catch(e => e);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(shouldRetry).toHaveBeenCalledTimes(1);
+    expect(error).toBeInstanceOf(RetryError);
+    expect(error.attempts).toHaveLength(1);
+  });
+
+  it('times out slow attempts', async () => {
+    const signals: AbortSignal[] = [];
+    const error = await retry(
+      (_attempt, signal) => {
+        signals.push(signal);
+        return new Promise<never>(() => {});
+      },
+      { retries: 1, delayMs: 0, attemptTimeoutMs: 10 },
+    ).catch(e => e);
+    expect(error).toBeInstanceOf(RetryError);
+    expect(error.lastError).toBeInstanceOf(TimeoutError);
+    expect(signals.every(s => s.aborted)).toBe(true);
+  });
+
+  it('aborts the pending wait', async () => {
+    const controller = new AbortController();
+    const fn = failing();
+    const pending = retry(fn, {
+      delayMs: 10_000,
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 10);
+    await expect(pending).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start when already aborted', async () => {
+    const fn = failing();
+    await expect(
+      retry(fn, { signal: AbortSignal.abort() }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('waits on the injected clock', async () => {
+    const clock = createFakeClock();
+    const calls: number[] = [];
+    const pending = retry(
+      async () => {
+        calls.push(clock.now());
+        throw new Error('fail');
+      },
+      {
+        retries: 3,
+        delayMs: 1000,
+        backoff: 'exponential',
+        clock,
+      },
+    ).catch(e => e);
+    await clock.runAll();
+    const error = await pending;
+    expect(calls).toEqual([0, 1000, 3000, 7000]);
+    expect(
+      error.attempts.map(
+        (a: { startedAt: number }) => a.startedAt,
+      ),
+    ).toEqual(calls);
+  });
+
+  it('accepts duration strings for delays', async () => {
+    const clock = createFakeClock();
+    const calls: number[] = [];
+    const pending = retry(
+      async () => {
+        calls.push(clock.now());
+        throw new Error('fail');
+      },
+      {
+        retries: 3,
+        delayMs: '1s',
+        maxDelayMs: '1.5s',
+        backoff: 'exponential',
+        clock,
+      },
+    ).catch(() => {});
+    await clock.runAll();
+    await pending;
+    expect(calls).toEqual([0, 1000, 2500, 4000]);
+  });
+
+  it('accepts a positional duration string', async () => {
+    const fn = mock(async () => {
+      throw new Error('fail');
+    });
+    await expect(
+      retry(fn, 1, '5ms'),
+    ).rejects.toBeInstanceOf(RetryError);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('draws decorrelated jitter from the clock', async () => {
+    const clock = createFakeClock({ random: () => 1 });
+    const delays: number[] = [];
+    const pending = retry(
+      () => Promise.reject(new Error('x')),
+      {
+        retries: 3,
+        delayMs: 10,
+        backoff: 'decorrelated-jitter',
+        clock,
+        onRetry: (_e, _a, ms) => delays.push(ms),
+      },
+    ).catch(() => {});
+    await clock.runAll();
+    await pending;
+    expect(delays).toEqual([30, 90, 270]);
+  });
+});
+
+describe('retrySafe', () => {
+  it('returns the value in the ok branch', async () => {
+    const result = await retrySafe(async () => 42);
+    expect(result.ok).toBe(true);
+    expect(result.unwrapOr(0)).toBe(42);
+  });
+
+  it('returns the attempt history in the err branch', async () => {
+    const result = await retrySafe(failing('down'), {
+      retries: 2,
+      delayMs: 0,
+    });
+    if (result.ok) throw new Error('expected err');
+    expect(result.error).toBeInstanceOf(RetryError);
+    expect(result.error.attempts).toHaveLength(3);
+    expect(result.error.lastError).toMatchObject({
+      message: 'down',
+    });
+  });
+
+  it('still rejects when aborted', async () => {
+    await expect(
+      retrySafe(failing(), { signal: AbortSignal.abort() }),
+    ).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -0,0 +1,235 @@
+import { abortReason } from './abort.js';
+import { type Clock, sleep, systemClock } from './clock.js';
+import {
+  type Duration,
+  toMilliseconds,
+} from './duration.js';
+import { withTimeout } from './promise.js';
+import { type Result, tryCatchAsync } from './result.js';
+
+/**
+ * Backoff strategy used to compute the delay between attempts.
+ *
+ * - `fixed` waits `delayMs` every time.
+ * - `exponential` waits `delayMs * factor ^ (retry - 1)`.
+ * - `decorrelated-jitter` picks a random delay between `delayMs`
+ *   and three times the previous delay (AWS "decorrelated jitter").
+ */
+export type BackoffStrategy =
+  | 'fixed'
+  | 'exponential'
+  | 'decorrelated-jitter';
+
+export interface RetryOptions {
+  /** Number of retries after the initial attempt. Defaults to 3. */
+  retries?: number;
+  /** Base delay between attempts. Defaults to 100 milliseconds. */
+  delayMs?: Duration;
+  /** Upper bound for any computed delay. Defaults to `Infinity`. */
+  maxDelayMs?: Duration;
+  /** Defaults to `fixed`. */
+  backoff?: BackoffStrategy;
+  /** Multiplier for `exponential` backoff. Defaults to 2. */
+  factor?: number;
+  /** Time limit for a single attempt. */
+  attemptTimeoutMs?: Duration;
+  /** Cancels the pending wait and any further attempts. */
+  signal?: AbortSignal;
+  /** Time, timer and jitter source. Defaults to `systemClock`. */
+  clock?: Clock;
+  /** Return `false` to stop retrying and fail with the given error. */
+  shouldRetry?: (
+    error: unknown,
+    attempt: number,
+  ) => boolean | Promise<boolean>;
+  /** Called before waiting for the next attempt. */
+  onRetry?: (
+    error: unknown,
+    attempt: number,
+    delayMs: number,
+  ) => void;
+}
+
+/**
+ * A single failed attempt recorded by `retry`.
+ */
+export interface RetryAttempt {
+  /** 1-based attempt number. */
+  attempt: number;
+  error: unknown;
+  /** Epoch milliseconds when the attempt started. */
+  startedAt: number;
+  durationMs: number;
+  /** Delay waited after this attempt, if another one followed. */
+  delayMs?: number;
+}
+
+/**
+ * Thrown by `retry` once every attempt has failed or `shouldRetry`
+ * rejected an error. Holds the full attempt history.
+ */
+export class RetryError extends Error {
+  override readonly name = 'RetryError';
+
+  constructor(readonly attempts: RetryAttempt[]) {
+    const last = attempts[attempts.length - 1]?.error;
+    super(
+      `Failed after ${attempts.length} attempt(s): ${
+        last instanceof Error ? last.message : String(last)
+      }`,
+      { cause: last },
+    );
+  }
+
+  /** Errors of every attempt, in order. */
+  get errors(): unknown[] {
+    return this.attempts.map(a => a.error);
+  }
+
+  /** Error of the final attempt. */
+  get lastError(): unknown {
+    return this.cause;
+  }
+}
+
+const runAttempt = <T>(
+  fn: (attempt: number, signal: AbortSignal) => Promise<T>,
+  attempt: number,
+  timeout: Duration | undefined,
+  signal: AbortSignal | undefined,
+  clock: Clock,
+): Promise<T> =>
+  withTimeout(
+    attemptSignal => fn(attempt, attemptSignal),
+    timeout ?? Number.POSITIVE_INFINITY,
+    { signal, clock },
+  );
+
+/**
+ * Computes the delay before the next attempt.
+ */
+const nextDelay = (
+  strategy: BackoffStrategy,
+  base: number,
+  factor: number,
+  retry: number,
+  previous: number,
+  random: () => number,
+): number => {
+  switch (strategy) {
+    case 'exponential':
+      return base * factor ** (retry - 1);
+    case 'decorrelated-jitter': {
+      const upper = Math.max(base, previous * 3);
+      return base + random() * (upper - base);
+    }
+    default:
+      return base;
+  }
+};
+
+const normalizeOptions = (
+  retriesOrOptions: number | RetryOptions | undefined,
+  delayMs: Duration | undefined,
+): RetryOptions =>
+  typeof retriesOrOptions === 'object'
+    ? retriesOrOptions
+    : { retries: retriesOrOptions, delayMs };
+
+/**
+ * Retries an async function up to `retries` times with a delay between attempts.
+ *
+ * Accepts either the positional `(fn, retries, delayMs)` form or an
+ * options object. `fn` receives the 1-based attempt number and a signal
+ * that aborts when the attempt times out or the call is cancelled.
+ * Throws a `RetryError` with every attempt once retrying stops, or the
+ * abort reason when `signal` is aborted.
+ */
+export const retry = async <T>(
+  fn: (attempt: number, signal: AbortSignal) => Promise<T>,
+  retriesOrOptions?: number | RetryOptions,
+  delayMs?: Duration,
+): Promise<T> => {
+  const {
+    retries = 3,
+    delayMs: delay = 100,
+    maxDelayMs: maxDelay = Number.POSITIVE_INFINITY,
+    backoff = 'fixed',
+    factor = 2,
+    attemptTimeoutMs,
+    signal,
+    shouldRetry,
+    onRetry,
+    clock = systemClock,
+  } = normalizeOptions(retriesOrOptions, delayMs);
+  const baseDelay = toMilliseconds(delay);
+  const maxDelayMs = toMilliseconds(maxDelay);
+
+  const attempts: RetryAttempt[] = [];
+  let previousDelay = baseDelay;
+
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    if (signal?.aborted) throw abortReason(signal);
+    const startedAt = clock.now();
+    try {
+      return await runAttempt(
+        fn,
+        attempt,
+        attemptTimeoutMs,
+        signal,
+        clock,
+      );
+    } catch (error) {
+      if (signal?.aborted) throw abortReason(signal);
+      const record: RetryAttempt = {
+        attempt,
+        error,
+        startedAt,
+        durationMs: clock.now() - startedAt,
+      };
+      attempts.push(record);
+
+      if (
+        attempt > retries ||
+        (shouldRetry &&
+          !(await shouldRetry(error, attempt)))
+      )
+        break;
+
+      const wait = Math.min(
+        nextDelay(
+          backoff,
+          baseDelay,
+          factor,
+          attempt,
+          previousDelay,
+          () => clock.random(),
+        ),
+        maxDelayMs,
+      );
+      previousDelay = wait;
+      record.delayMs = wait;
+      onRetry?.(error, attempt, wait);
+      await sleep(wait, { signal, clock });
+    }
+  }
+
+  throw new RetryError(attempts);
+};
+
+/**
+ * Like `retry`, but resolves to a `Result` instead of throwing. The
+ * `err` branch holds the `RetryError` with every attempt. Aborting
+ * `signal` still rejects with the abort reason.
+ */
+export const retrySafe = <T>(
+  fn: (attempt: number, signal: AbortSignal) => Promise<T>,
+  options: RetryOptions = {},
+): Promise<Result<T, RetryError>> =>
+  tryCatchAsync(
+    () => retry(fn, options),
+    error => {
+      if (error instanceof RetryError) return error;
+      throw error;
+    },
+  );
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  diffBy,
+  difference,
+  intersection,
+  symmetricDifference,
+  union,
+} from './set-ops.js';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+const byId = (user: User) => user.id;
+
+describe('set operations', () => {
+  const a = [1, 2, 2, 3];
+  const b = [3, 4, 4, 1];
+
+  it('union keeps the first occurrence per key', () => {
+    expect(union(a, b)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('intersection keeps items of a found in b', () => {
+    expect(intersection(a, b)).toEqual([1, 3]);
+  });
+
+  it('difference keeps items of a missing from b', () => {
+    expect(difference(a, b)).toEqual([2]);
+    expect(difference(b, a)).toEqual([4]);
+  });
+
+  it('symmetricDifference keeps items in exactly one side', () => {
+    expect(symmetricDifference(a, b)).toEqual([2, 4]);
+  });
+
+  it('compares by key function', () => {
+    const left: User[] = [
+      { id: 1, name: 'ada' },
+      { id: 2, name: 'bob' },
+    ];
+    const right: User[] = [
+      { id: 2, name: 'Bob' },
+      { id: 3, name: 'cy' },
+    ];
+    expect(
+      union(left, right, byId).map(u => u.name),
+    ).toEqual(['ada', 'bob', 'cy']);
+    expect(intersection(left, right, byId)).toEqual([
+      left[1],
+    ]);
+    expect(difference(left, right, byId)).toEqual([
+      left[0],
+    ]);
+    expect(symmetricDifference(left, right, byId)).toEqual([
+      left[0],
+      right[1],
+    ]);
+  });
+
+  it('accepts any iterable', () => {
+    expect(union(new Set([1]), [2].values())).toEqual([
+      1, 2,
+    ]);
+    expect(
+      symmetricDifference(new Set([1, 2]), new Set([2, 3])),
+    ).toEqual([1, 3]);
+  });
+
+  it('handles empty inputs', () => {
+    expect(union([], [])).toEqual([]);
+    expect(intersection([1], [])).toEqual([]);
+    expect(difference([1], [])).toEqual([1]);
+  });
+});
+
+describe('diffBy', () => {
+  const before: User[] = [
+    { id: 1, name: 'ada' },
+    { id: 2, name: 'bob' },
+    { id: 3, name: 'cy' },
+  ];
+  const after: User[] = [
+    { id: 2, name: 'Bob' },
+    { id: 3, name: 'cy' },
+    { id: 4, name: 'dee' },
+  ];
+
+  it('reports added, removed, changed and unchanged items', () => {
+    expect(diffBy(before, after, byId)).toEqual({
+      added: [{ id: 4, name: 'dee' }],
+      removed: [{ id: 1, name: 'ada' }],
+      changed: [
+        {
+          key: 2,
+          before: { id: 2, name: 'bob' },
+          after: { id: 2, name: 'Bob' },
+        },
+      ],
+      unchanged: [{ id: 3, name: 'cy' }],
+    });
+  });
+
+  it('uses a custom equality check', () => {
+    const diff = diffBy(
+      before,
+      after,
+      byId,
+      (x, y) =>
+        x.name.toLowerCase() === y.name.toLowerCase(),
+    );
+    expect(diff.changed).toEqual([]);
+    expect(diff.unchanged.map(u => u.id)).toEqual([2, 3]);
+  });
+
+  it('handles large inputs quickly', () => {
+    const size = 100_000;
+    const old = Array.from({ length: size }, (_, id) => ({
+      id,
+      name: `user ${id}`,
+    }));
+    const next = old.map(user =>
+      user.id % 10 === 0
+        ? { ...user, name: `renamed ${user.id}` }
+        : user,
+    );
+    const started = performance.now();
+    const diff = diffBy(old, next, byId, (x, y) => x === y);
+    expect(performance.now() - started).toBeLessThan(1000);
+    expect(diff.changed).toHaveLength(size / 10);
+    expect(diff.unchanged).toHaveLength(size - size / 10);
+  });
+});
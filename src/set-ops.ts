@@ -0,0 +1,189 @@
+import { deepEqual } from './deep.js';
+
+/**
+ * Maps an item to the identity used for comparison. Keys are compared
+ * with `SameValueZero`, like `Set`.
+ */
+export type IdentityFn<T> = (item: T) => unknown;
+
+/**
+ * A keyed item whose value differs between `before` and `after`.
+ */
+export interface Change<T> {
+  key: unknown;
+  before: T;
+  after: T;
+}
+
+/**
+ * Result of `diffBy`. `added`, `changed` and `unchanged` follow the
+ * order of `after`; `removed` follows the order of `before`.
+ */
+export interface Diff<T> {
+  added: T[];
+  removed: T[];
+  changed: Change<T>[];
+  unchanged: T[];
+}
+
+const identity = (item: unknown): unknown => item;
+
+const keySet = <T>(
+  items: Iterable<T>,
+  keyFn: IdentityFn<T>,
+): Set<unknown> => {
+  const keys = new Set<unknown>();
+  for (const item of items) keys.add(keyFn(item));
+  return keys;
+};
+
+/**
+ * Appends the first item for each key of `items` for which `keep` holds,
+ * recording emitted keys in `seen`.
+ */
+const collectDistinct = <T>(
+  items: Iterable<T>,
+  keyFn: IdentityFn<T>,
+  seen: Set<unknown>,
+  keep: (key: unknown) => boolean,
+  result: T[],
+): T[] => {
+  for (const item of items) {
+    const key = keyFn(item);
+    if (seen.has(key) || !keep(key)) continue;
+    seen.add(key);
+    result.push(item);
+  }
+  return result;
+};
+
+/**
+ * Items present in either collection, first occurrence per key wins.
+ */
+export const union = <T>(
+  a: Iterable<T>,
+  b: Iterable<T>,
+  keyFn: IdentityFn<T> = identity,
+): T[] => {
+  const seen = new Set<unknown>();
+  const result = collectDistinct(
+    a,
+    keyFn,
+    seen,
+    () => true,
+    [],
+  );
+  return collectDistinct(
+    b,
+    keyFn,
+    seen,
+    () => true,
+    result,
+  );
+};
+
+/**
+ * Items of `a` whose key also appears in `b`, without duplicates.
+ */
+export const intersection = <T>(
+  a: Iterable<T>,
+  b: Iterable<T>,
+  keyFn: IdentityFn<T> = identity,
+): T[] => {
+  const inB = keySet(b, keyFn);
+  return collectDistinct(
+    a,
+    keyFn,
+    new Set(),
+    key => inB.has(key),
+    [],
+  );
+};
+
+/**
+ * Items of `a` whose key does not appear in `b`, without duplicates.
+ */
+export const difference = <T>(
+  a: Iterable<T>,
+  b: Iterable<T>,
+  keyFn: IdentityFn<T> = identity,
+): T[] => {
+  const inB = keySet(b, keyFn);
+  return collectDistinct(
+    a,
+    keyFn,
+    new Set(),
+    key => !inB.has(key),
+    [],
+  );
+};
+
+/**
+ * Items whose key appears in exactly one of the collections: those
+ * only in `a` followed by those only in `b`.
+ */
+export const symmetricDifference = <T>(
+  a: Iterable<T>,
+  b: Iterable<T>,
+  keyFn: IdentityFn<T> = identity,
+): T[] => {
+  const left = [...a];
+  const right = [...b];
+  const inA = keySet(left, keyFn);
+  const inB = keySet(right, keyFn);
+  const seen = new Set<unknown>();
+  const result = collectDistinct(
+    left,
+    keyFn,
+    seen,
+    key => !inB.has(key),
+    [],
+  );
+  return collectDistinct(
+    right,
+    keyFn,
+    seen,
+    key => !inA.has(key),
+    result,
+  );
+};
+
+/**
+ * Compares two snapshots of keyed records in linear time. Items with
+ * the same key are compared with `equals`, which defaults to
+ * `deepEqual`. Keys are expected to be unique within each snapshot;
+ * when they are not, the last item with a key is used.
+ */
+export const diffBy = <T>(
+  before: Iterable<T>,
+  after: Iterable<T>,
+  keyFn: IdentityFn<T>,
+  equals: (before: T, after: T) => boolean = deepEqual,
+): Diff<T> => {
+  const previous = new Map<unknown, T>();
+  for (const item of before)
+    previous.set(keyFn(item), item);
+
+  const diff: Diff<T> = {
+    added: [],
+    removed: [],
+    changed: [],
+    unchanged: [],
+  };
+  const current = new Map<unknown, T>();
+  for (const item of after) current.set(keyFn(item), item);
+
+  for (const [key, item] of current) {
+    if (!previous.has(key)) {
+      diff.added.push(item);
+      continue;
+    }
+    const old = previous.get(key) as T;
+    if (equals(old, item)) diff.unchanged.push(item);
+    else
+      diff.changed.push({ key, before: old, after: item });
+  }
+  for (const [key, item] of previous)
+    if (!current.has(key)) diff.removed.push(item);
+  return diff;
+};